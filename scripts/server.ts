@@ -0,0 +1,90 @@
+/**
+ * server.ts
+ *
+ * Reference match server for online play (src/lib/netServer.ts over
+ * WebSocket). One process hosts any number of rooms; state lives in memory.
+ *
+ *   npm run server -- --port 8787
+ *
+ * Options (all optional):
+ *   --port N             port to listen on (default 8787)
+ *   --quiet              don't log joins and disconnects
+ */
+
+import WebSocket from "ws";
+import type { JoinMessage, ServerMessage } from "../src/lib/netProtocol";
+import { createMatchServer } from "../src/lib/netServer";
+
+const args = process.argv.slice(2);
+
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string, fallback: string): string => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : fallback;
+};
+
+const port = Number(option("port", "8787"));
+if (!Number.isInteger(port) || port <= 0) {
+  console.error("server: --port must be a port number");
+  process.exit(1);
+}
+const log = (message: string) => {
+  if (!flag("quiet")) console.log(`[${new Date().toISOString()}] ${message}`);
+};
+
+const TICK_INTERVAL = 1000;
+const MAX_MESSAGE_BYTES = 256 * 1024; // a 30×30 setup with terrain is well under this
+
+const matches = createMatchServer();
+const sockets = new Map<string, WebSocket>();
+let nextConnection = 1;
+
+const deliver = (outgoing: { to: string; message: ServerMessage }[]) => {
+  for (const { to, message } of outgoing) {
+    const socket = sockets.get(to);
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }
+};
+
+const wss = new WebSocket.Server({ port, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on("connection", (socket, request) => {
+  const id = `c${nextConnection++}`;
+  sockets.set(id, socket);
+  log(`${id} connected from ${request.socket.remoteAddress}`);
+
+  socket.on("message", (data) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      deliver([{ to: id, message: { type: "error", message: "Messages must be JSON" } }]);
+      return;
+    }
+    // Valid JSON can still be anything — `null`, a number, an object without a type
+    if (typeof message !== "object" || message === null || typeof (message as { type?: unknown }).type !== "string") {
+      deliver([{ to: id, message: { type: "error", message: "Malformed message" } }]);
+      return;
+    }
+    const { type } = message as { type: string };
+    try {
+      const { room, create } = message as Partial<JoinMessage>;
+      if (type === "join" && typeof room === "string") log(`${id} joins ${room}${create ? " (new room)" : ""}`);
+      deliver(matches.handle(id, message, Date.now()));
+    } catch (err) {
+      // A malformed message must not take every other room down with it
+      log(`${id} sent a bad ${type} message: ${err}`);
+      deliver([{ to: id, message: { type: "error", message: "Malformed message" } }]);
+    }
+  });
+
+  socket.on("close", () => {
+    sockets.delete(id);
+    deliver(matches.disconnect(id, Date.now()));
+    log(`${id} disconnected (${matches.roomCount()} rooms open)`);
+  });
+});
+
+setInterval(() => deliver(matches.tick(Date.now())), TICK_INTERVAL);
+
+log(`match server listening on ws://localhost:${port}`);
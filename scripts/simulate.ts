@@ -0,0 +1,138 @@
+/**
+ * simulate.ts
+ *
+ * CLI for the headless AI-vs-AI simulator (src/lib/simulator.ts).
+ *
+ *   npm run simulate -- --matches 50 --red hard:rusher --blue medium:turtle
+ *
+ * Options (all optional):
+ *   --matches N          matches to play (default 20)
+ *   --red / --blue D:P   difficulty (easy|medium|hard) and personality
+ *                        (balanced|rusher|turtle|artillery|economist); default medium:balanced
+ *   --mode M             turns | realtime (default turns)
+ *   --size N             10 | 20 | 30 for random maps (default 10)
+ *   --fog                play with fog of war
+ *   --funds N            starting funds per side (default 1000)
+ *   --seed N             base seed; match i uses seed + i (default 1)
+ *   --max-turns N        turn mode: judge the match after N turns (default 40)
+ *   --max-minutes N      real-time: judge the match after N minutes of game time (default 15)
+ *   --time-limit MS      hard AI planning budget per decision (default 200)
+ *   --win a,b,…          victory conditions: annihilation, hq, cities60, cities75, score
+ *                        (default annihilation,hq)
+ *   --ruleset R          built-in ruleset id (classic | game2) or a path to a ruleset
+ *                        JSON file, validated before any match is played (default classic)
+ *   --terrain a.json,…   cached real-world maps (TerrainType[][] — the JSON the game
+ *                        stores under a `realmap_…` localStorage key); cycled per match
+ *   --format json|csv    output format (default json)
+ *   --out FILE           write the report to FILE instead of stdout
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { PERSONALITIES, type PersonalityId } from "../src/lib/personalities";
+import { DEFAULT_RULESET, RULESETS, type Ruleset, parseRuleset } from "../src/lib/rulesets";
+import { type AIConfig, type SimulationOptions, reportToCSV, simulate } from "../src/lib/simulator";
+import type { VictoryConditions } from "../src/lib/victory";
+import type { TerrainType } from "../src/types/game";
+
+const args = process.argv.slice(2);
+
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string, fallback: string): string => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : fallback;
+};
+
+const fail = (message: string): never => {
+  console.error(`simulate: ${message}`);
+  process.exit(1);
+};
+
+const parseNumber = (name: string, fallback: number): number => {
+  const value = Number(option(name, String(fallback)));
+  return Number.isFinite(value) ? value : fail(`--${name} must be a number`);
+};
+
+const parseAI = (name: string): AIConfig => {
+  const [difficulty, personality = "balanced"] = option(name, "medium:balanced").split(":");
+  if (difficulty !== "easy" && difficulty !== "medium" && difficulty !== "hard")
+    fail(`unknown difficulty "${difficulty}"`);
+  if (!(personality in PERSONALITIES)) fail(`unknown personality "${personality}"`);
+  return {
+    difficulty: difficulty as AIConfig["difficulty"],
+    personality: personality as PersonalityId,
+    timeLimitMs: parseNumber("time-limit", 200),
+  };
+};
+
+const mode = option("mode", "turns");
+if (mode !== "turns" && mode !== "realtime") fail(`unknown mode "${mode}"`);
+const mapSize = parseNumber("size", 10);
+if (mapSize !== 10 && mapSize !== 20 && mapSize !== 30) fail("--size must be 10, 20 or 30");
+const format = option("format", "json");
+if (format !== "json" && format !== "csv") fail(`unknown format "${format}"`);
+
+const parseVictory = (): VictoryConditions => {
+  const victory: VictoryConditions = {
+    annihilation: false,
+    hqCapture: false,
+    cityShare: null,
+    scoreAtTimeLimit: false,
+  };
+  for (const condition of option("win", "annihilation,hq").split(",").filter(Boolean)) {
+    if (condition === "annihilation") victory.annihilation = true;
+    else if (condition === "hq") victory.hqCapture = true;
+    else if (condition === "cities60") victory.cityShare = 0.6;
+    else if (condition === "cities75") victory.cityShare = 0.75;
+    else if (condition === "score") victory.scoreAtTimeLimit = true;
+    else fail(`unknown victory condition "${condition}"`);
+  }
+  return victory;
+};
+
+const parseRulesetOption = (): Ruleset => {
+  const value = option("ruleset", DEFAULT_RULESET);
+  if (RULESETS[value]) return RULESETS[value];
+  try {
+    return parseRuleset(JSON.parse(readFileSync(value, "utf8")), value);
+  } catch (err) {
+    return fail(`can't load ruleset ${value}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+const terrainFiles = option("terrain", "").split(",").filter(Boolean);
+const terrains = terrainFiles.map((file) => {
+  try {
+    return JSON.parse(readFileSync(file, "utf8")) as TerrainType[][];
+  } catch (err) {
+    return fail(`can't read terrain ${file}: ${err instanceof Error ? err.message : err}`);
+  }
+});
+
+const options: SimulationOptions = {
+  matches: parseNumber("matches", 20),
+  red: parseAI("red"),
+  blue: parseAI("blue"),
+  mapSize: mapSize as SimulationOptions["mapSize"],
+  mode: mode as SimulationOptions["mode"],
+  fogOfWar: flag("fog"),
+  startingFunds: parseNumber("funds", 1000),
+  seed: parseNumber("seed", 1),
+  terrains,
+  maxTurns: parseNumber("max-turns", 40),
+  maxDurationMs: parseNumber("max-minutes", 15) * 60_000,
+  victory: parseVictory(),
+  ruleset: parseRulesetOption(),
+};
+
+const started = Date.now();
+const report = simulate(options, (result, i) => {
+  console.error(
+    `match ${i + 1}/${options.matches}: ${result.winner} (${result.winReason}) after ${result.length} ${mode === "turns" ? "turns" : "s"}`,
+  );
+});
+console.error(`done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+const output = format === "csv" ? reportToCSV(report) : `${JSON.stringify(report, null, 2)}\n`;
+const out = option("out", "");
+if (out) writeFileSync(out, output);
+else process.stdout.write(output);
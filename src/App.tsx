@@ -6,6 +6,7 @@ import { HashRouter, Route, Routes } from 'react-router-dom';
 import Lobby from "./pages/Lobby";
 import Game from "./pages/Game";
 import Game2 from "./pages/Game2";
+import Replay from "./pages/Replay";
 
 function App() {
   useEffect(() => {
@@ -22,6 +23,9 @@ function App() {
         <Route
           path="/game2"
           element={<Game2 />} />
+        <Route
+          path="/replay"
+          element={<Replay />} />
         <Route
           path="/"
           element={<Lobby />} />
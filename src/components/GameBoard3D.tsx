@@ -1,9 +1,12 @@
 import { useRef, useState, useEffect } from 'react';
 import { Canvas, useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
-import { OrbitControls, Html } from '@react-three/drei';
+import { OrbitControls, Html, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
-import type { Tile, Unit, TerrainType, City } from '../types/game';
+import type { Tile, Unit, TerrainType, City, Player } from '../types/game';
 import type { MapLibreBackdropHandle } from './MapLibreBackdrop';
+import { resolveAttack } from '../lib/combat';
+import { CAPTURE_THRESHOLD } from '../lib/constants';
+import { findPath } from '../lib/grid';
 
 // ── Terrain visual config ──────────────────────────────────────────────────
 
@@ -109,12 +112,14 @@ interface TileProps {
   isHovered: boolean;
   isUnitOnCooldown: boolean;
   cooldownSecs: number;
+  /** Outside the viewer's vision (fog of war). */
+  isFogged: boolean;
   onClick: (e: ThreeEvent<MouseEvent>) => void;
   onPointerOver: (e: ThreeEvent<PointerEvent>) => void;
   onPointerOut: (e: ThreeEvent<PointerEvent>) => void;
 }
 
-function Tile3D({ tile, isSelected, isMovement, isAttack, isHovered, isUnitOnCooldown, cooldownSecs, onClick, onPointerOver, onPointerOut }: TileProps) {
+function Tile3D({ tile, isSelected, isMovement, isAttack, isHovered, isUnitOnCooldown, cooldownSecs, isFogged, onClick, onPointerOver, onPointerOut }: TileProps) {
   const [gx, gy] = tile.position;
   const terrainType = tile.terrain.type;
   // vh = visual height offset used for stacking decorations/highlights above ground
@@ -149,6 +154,14 @@ function Tile3D({ tile, isSelected, isMovement, isAttack, isHovered, isUnitOnCoo
         <meshBasicMaterial transparent opacity={0} depthWrite={false} />
       </mesh>
 
+      {/* Fog of war — a dark translucent volume over tiles the viewer can't see */}
+      {isFogged && (
+        <mesh position={[0, vh + 0.3, 0]}>
+          <boxGeometry args={[1, 0.6, 1]} />
+          <meshBasicMaterial color="#0f172a" transparent opacity={0.5} depthWrite={false} />
+        </mesh>
+      )}
+
       {/* Water surface */}
       {terrainType === 'Water' && (
         <mesh position={[0, vh + 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
@@ -190,12 +203,21 @@ function Tile3D({ tile, isSelected, isMovement, isAttack, isHovered, isUnitOnCoo
             <boxGeometry args={[0.2, 0.44, 0.2]} />
             <meshLambertMaterial color={CITY_OWNER_COLOR[cityOwnerKey]} />
           </mesh>
-          {/* Capture progress bar */}
+          {/* Headquarters: a flag pole on the tall tower, flying the owner's colour */}
+          {city?.hq && (
+            <>
+              <mesh position={[-0.14, vh + 0.62, -0.14]}>
+                <cylinderGeometry args={[0.012, 0.012, 0.36, 6]} />
+                <meshLambertMaterial color="#374151" />
+              </mesh>
+              <mesh position={[-0.05, vh + 0.72, -0.14]}>
+                <boxGeometry args={[0.16, 0.1, 0.01]} />
+                <meshLambertMaterial color={city.owner === 'Blue' ? '#2563eb' : city.owner === 'Red' ? '#dc2626' : '#9ca3af'} />
+              </mesh>
+            </>
+          )}
           {city && city.captureProgress > 0 && (
-            <mesh position={[0, vh + 0.01, 0.42]}>
-              <boxGeometry args={[(city.captureProgress / 20) * 0.9, 0.04, 0.06]} />
-              <meshLambertMaterial color="#eab308" />
-            </mesh>
+            <CaptureRing y={vh + (city.hq ? 1 : 0.85)} progress={city.captureProgress} capturer={tile.unit?.player} />
           )}
         </>
       )}
@@ -325,7 +347,7 @@ function Tile3D({ tile, isSelected, isMovement, isAttack, isHovered, isUnitOnCoo
                 userSelect: 'none',
               }}
             >
-              {unit.health}hp{isUnitOnCooldown ? ` ⏱${cooldownSecs}s` : ''}
+              {unit.health}hp{isUnitOnCooldown && cooldownSecs > 0 ? ` ⏱${cooldownSecs}s` : ''}
             </div>
           </Html>
         </group>
@@ -602,6 +624,116 @@ function SceneClear() {
   return null;
 }
 
+// ── Attack forecast tooltip ────────────────────────────────────────────────
+
+/** Expected result of `attacker` hitting the unit on `defenderTile`, shown over the target. */
+function AttackForecast({ attacker, attackerTile, defenderTile }: { attacker: Unit; attackerTile: Tile; defenderTile: Tile }) {
+  const defender = defenderTile.unit;
+  if (!defender) return null;
+  const forecast = resolveAttack(attacker, attackerTile, defender, defenderTile);
+  const { base, healthFactor, terrainDefense } = forecast.breakdown;
+  const [gx, gy] = defenderTile.position;
+
+  return (
+    <Html position={[gx, TERRAIN_HEIGHT[defenderTile.terrain.type] + 1.1, gy]} center distanceFactor={7} zIndexRange={[20, 10]}>
+      <div
+        style={{
+          background: 'rgba(17,24,39,0.92)',
+          color: 'white',
+          padding: '4px 6px',
+          borderRadius: 4,
+          fontSize: 11,
+          lineHeight: 1.35,
+          whiteSpace: 'nowrap',
+          pointerEvents: 'none',
+          userSelect: 'none',
+        }}
+      >
+        <div style={{ fontWeight: 700 }}>
+          {forecast.damage} dmg → {forecast.defenderHealth <= 0 ? 'destroyed' : `${forecast.defenderHealth}hp left`}
+        </div>
+        <div style={{ color: forecast.counterDamage === null ? '#86efac' : forecast.attackerHealth <= 0 ? '#f87171' : '#fca5a5' }}>
+          {forecast.counterDamage === null
+            ? 'No counter-attack'
+            : `Counter ${forecast.counterDamage} dmg${forecast.attackerHealth <= 0 ? ' — your unit dies' : ''}`}
+        </div>
+        <div style={{ color: '#9ca3af', fontSize: 9 }}>
+          base {base} × {Math.round(healthFactor * 100)}% hp{terrainDefense ? ` − ${terrainDefense}% terrain` : ''}
+        </div>
+      </div>
+    </Html>
+  );
+}
+
+// ── Threat heatmap (debug) ─────────────────────────────────────────────────
+
+/** Red tint per tile, stronger where more enemy firepower can reach. */
+function ThreatOverlay({ grid, heat }: { grid: Tile[][]; heat: number[][] }) {
+  return (
+    <>
+      {grid.flatMap(row => row.map(({ position: [x, y] }) => {
+        const value = heat[y]?.[x] ?? 0;
+        if (value <= 0) return null;
+        return (
+          <mesh key={`threat-${x},${y}`} position={[x, 0.07, y]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+            <planeGeometry args={[0.96, 0.96]} />
+            <meshBasicMaterial color="#dc2626" transparent opacity={0.15 + value * 0.5} depthWrite={false} />
+          </mesh>
+        );
+      }))}
+    </>
+  );
+}
+
+/**
+ * Capture progress above a city: a ring that fills clockwise in the
+ * capturer's colour as capture points are taken off it.
+ */
+function CaptureRing({ y, progress, capturer }: { y: number; progress: number; capturer?: Player }) {
+  const fraction = Math.min(1, progress / CAPTURE_THRESHOLD);
+  return (
+    <Billboard position={[0, y, 0]}>
+      <mesh raycast={() => null}>
+        <ringGeometry args={[0.14, 0.2, 32]} />
+        <meshBasicMaterial color="#1f2937" transparent opacity={0.6} depthWrite={false} />
+      </mesh>
+      <mesh raycast={() => null}>
+        {/* Starts at 12 o'clock and runs clockwise */}
+        <ringGeometry args={[0.14, 0.2, 32, 1, Math.PI / 2 - fraction * Math.PI * 2, fraction * Math.PI * 2]} />
+        <meshBasicMaterial color={capturer === 'Blue' ? '#3b82f6' : capturer === 'Red' ? '#ef4444' : '#eab308'} depthWrite={false} />
+      </mesh>
+    </Billboard>
+  );
+}
+
+/** Dots along the route the selected unit would take to the hovered tile. */
+function PathPreview({ grid, path }: { grid: Tile[][]; path: [number, number][] }) {
+  return (
+    <>
+      {path.map(([x, y], i) => (
+        <mesh key={`path-${x},${y}`} position={[x, 0.1, y]} raycast={() => null}>
+          <sphereGeometry args={[i === path.length - 1 ? 0.09 : 0.05, 12, 8]} />
+          <meshBasicMaterial color={grid[y][x].terrain.type === 'Road' ? '#fde047' : '#1d4ed8'} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+/** Green rings on the tiles of the current hint (the unit, where it goes, what it hits). */
+function HintOverlay({ tiles }: { tiles: [number, number][] }) {
+  return (
+    <>
+      {tiles.map(([x, y]) => (
+        <mesh key={`hint-${x},${y}`} position={[x, 0.08, y]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+          <ringGeometry args={[0.36, 0.47, 32]} />
+          <meshBasicMaterial color="#10b981" transparent opacity={0.85} depthWrite={false} />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
 // ── Grid scene (inside Canvas) ─────────────────────────────────────────────
 
 interface GridSceneProps {
@@ -610,13 +742,21 @@ interface GridSceneProps {
   movementRange: [number, number][];
   attackRange: [number, number][];
   unitCooldowns: Record<string, number>;
+  /** Turn mode: units that already acted this turn (drawn dimmed, like a cooldown). */
+  actedUnits?: string[];
+  /** Fog of war: visible[y][x] for the viewing side. Omit to show everything. */
+  visibility?: boolean[][];
+  /** Debug: AI threat heat per tile in [0, 1]; drawn as a red overlay when set. */
+  threatHeat?: number[][];
+  /** Tiles of the current Hint-button suggestion, ringed in green. */
+  hintTiles?: [number, number][];
   now: number;
   onTileClick: (x: number, y: number, screenX: number, screenY: number) => void;
   attackEvent: { attackerPos: [number, number]; defenderPos: [number, number]; timestamp: number; hasCounter: boolean } | null;
   mapBackdropRef?: React.RefObject<MapLibreBackdropHandle | null>;
 }
 
-function GridScene({ grid, selectedUnit, movementRange, attackRange, unitCooldowns, now, onTileClick, attackEvent, mapBackdropRef }: GridSceneProps) {
+function GridScene({ grid, selectedUnit, movementRange, attackRange, unitCooldowns, actedUnits, visibility, threatHeat, hintTiles, now, onTileClick, attackEvent, mapBackdropRef }: GridSceneProps) {
   const moveSet = new Set(movementRange.map(([x, y]) => `${x},${y}`));
   const attackSet = new Set(attackRange.map(([x, y]) => `${x},${y}`));
   const [hoveredTile, setHoveredTile] = useState<string | null>(null);
@@ -667,6 +807,7 @@ function GridScene({ grid, selectedUnit, movementRange, attackRange, unitCooldow
   });
 
   const isUnitOnCooldown = (id: string) => {
+    if (actedUnits?.includes(id)) return true;
     const cd = unitCooldowns[id];
     return cd !== undefined && now < cd;
   };
@@ -751,6 +892,7 @@ function GridScene({ grid, selectedUnit, movementRange, attackRange, unitCooldow
               isHovered={hoveredTile === key}
               isUnitOnCooldown={onCd}
               cooldownSecs={cdSecs}
+              isFogged={!!visibility && !visibility[ty]?.[tx]}
               onClick={(e: ThreeEvent<MouseEvent>) => {
                 e.stopPropagation();
                 onTileClick(tx, ty, e.nativeEvent.clientX, e.nativeEvent.clientY);
@@ -768,6 +910,24 @@ function GridScene({ grid, selectedUnit, movementRange, attackRange, unitCooldow
         })
       )}
 
+      {threatHeat && <ThreatOverlay grid={grid} heat={threatHeat} />}
+      {hintTiles && <HintOverlay tiles={hintTiles} />}
+
+      {/* Route preview over the hovered destination */}
+      {selectedUnit && hoveredTile && moveSet.has(hoveredTile) && (
+        <PathPreview grid={grid} path={findPath(selectedUnit, grid, hoveredTile.split(',').map(Number) as [number, number])} />
+      )}
+
+      {/* Damage forecast over the hovered attack target */}
+      {selectedUnit && hoveredTile && attackSet.has(hoveredTile) && (() => {
+        const [hx, hy] = hoveredTile.split(',').map(Number);
+        const [sx, sy] = selectedUnit.position;
+        const attackerTile = grid[sy]?.[sx];
+        const defenderTile = grid[hy]?.[hx];
+        if (!attackerTile || !defenderTile?.unit) return null;
+        return <AttackForecast attacker={attackerTile.unit ?? selectedUnit} attackerTile={attackerTile} defenderTile={defenderTile} />;
+      })()}
+
       {/* Dying unit animations */}
       {[...dyingUnits.values()].map(entry => (
         <DyingUnit key={entry.unit.id} entry={entry} onDone={removeDyingUnit} />
@@ -839,6 +999,14 @@ export interface GameBoard3DProps {
   movementRange: [number, number][];
   attackRange: [number, number][];
   unitCooldowns: Record<string, number>;
+  /** Turn mode: units that already acted this turn (drawn dimmed, like a cooldown). */
+  actedUnits?: string[];
+  /** Fog of war: visible[y][x] for the viewing side. Omit to show everything. */
+  visibility?: boolean[][];
+  /** Debug: AI threat heat per tile in [0, 1]; drawn as a red overlay when set. */
+  threatHeat?: number[][];
+  /** Tiles of the current Hint-button suggestion, ringed in green. */
+  hintTiles?: [number, number][];
   now: number;
   onTileClick: (x: number, y: number, screenX: number, screenY: number) => void;
   attackEvent: { attackerPos: [number, number]; defenderPos: [number, number]; timestamp: number; hasCounter: boolean } | null;
@@ -42,18 +42,26 @@ const MAP_STYLE: maplibregl.StyleSpecification = {
 interface LocationPickerProps {
   value: [number, number];
   onChange: (lngLat: [number, number]) => void;
+  /** Show the location without letting the user change it (an online room's guest). */
+  readOnly?: boolean;
 }
 
 // ── Component ─────────────────────────────────────────────────────────────
 
-export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+export default function LocationPicker({ value, onChange, readOnly = false }: LocationPickerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef       = useRef<maplibregl.Map | null>(null);
   const markerRef    = useRef<maplibregl.Marker | null>(null);
   const onChangeRef  = useRef(onChange);
 
+  const readOnlyRef  = useRef(readOnly);
+
   // Keep latest onChange so the click handler always calls the current one.
   useEffect(() => { onChangeRef.current = onChange; }, [onChange]);
+  useEffect(() => {
+    readOnlyRef.current = readOnly;
+    markerRef.current?.setDraggable(!readOnly);
+  }, [readOnly]);
 
   const [display, setDisplay] = useState<[number, number]>(value);
 
@@ -77,7 +85,7 @@ export default function LocationPicker({ value, onChange }: LocationPickerProps)
       map.once('load', () => map!.resize());
 
       // Drop a marker at the current value
-      markerRef.current = new maplibregl.Marker({ color: '#ef4444', draggable: true })
+      markerRef.current = new maplibregl.Marker({ color: '#ef4444', draggable: !readOnlyRef.current })
         .setLngLat(value)
         .addTo(map);
 
@@ -89,6 +97,7 @@ export default function LocationPicker({ value, onChange }: LocationPickerProps)
 
       // Click anywhere → move marker there
       map.on('click', (e) => {
+        if (readOnlyRef.current) return;
         const ll: [number, number] = [e.lngLat.lng, e.lngLat.lat];
         markerRef.current?.setLngLat(ll);
         setDisplay(ll);
@@ -143,7 +152,8 @@ export default function LocationPicker({ value, onChange }: LocationPickerProps)
             <button
               key={p.name}
               onClick={() => onChangeRef.current([p.lng, p.lat])}
-              className="text-xs text-left px-2 py-1 rounded border border-gray-200 bg-gray-50 hover:bg-gray-100 hover:border-blue-400 transition"
+              disabled={readOnly}
+              className="text-xs text-left px-2 py-1 rounded border border-gray-200 bg-gray-50 hover:bg-gray-100 hover:border-blue-400 transition disabled:opacity-50"
             >
               {p.name}
             </button>
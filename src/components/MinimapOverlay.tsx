@@ -1,7 +1,8 @@
 import { useEffect, useRef } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import type { Tile, TerrainType } from '../types/game';
+import type { City, Tile, TerrainType } from '../types/game';
+import { CAPTURE_THRESHOLD } from '../lib/constants';
 
 // ── Coordinate mapping ────────────────────────────────────────────────────
 // Each grid cell occupies TILE_DEG × TILE_DEG degrees of fake lat/lng space.
@@ -29,7 +30,7 @@ const TERRAIN_FILL: Record<TerrainType, string> = {
 // ── GeoJSON builders ──────────────────────────────────────────────────────
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function buildTileCollection(grid: Tile[][]): any {
+function buildTileCollection(grid: Tile[][], visibility?: boolean[][]): any {
   const features = [];
   for (let y = 0; y < grid.length; y++) {
     for (let x = 0; x < (grid[y]?.length ?? 0); x++) {
@@ -47,7 +48,11 @@ function buildTileCollection(grid: Tile[][]): any {
             [cx - HALF, cy - HALF],
           ]],
         },
-        properties: { color: TERRAIN_FILL[tile.terrain.type] },
+        properties: {
+          color: TERRAIN_FILL[tile.terrain.type],
+          // Fogged tiles let the dark background show through
+          opacity: visibility && !visibility[y]?.[x] ? 0.35 : 0.92,
+        },
       });
     }
   }
@@ -74,27 +79,58 @@ function buildUnitCollection(grid: Tile[][]): any {
   return { type: 'FeatureCollection', features };
 }
 
+function buildCaptureCollection(grid: Tile[][], visibility?: boolean[][]): GeoJSON.FeatureCollection<GeoJSON.LineString> {
+  const features: GeoJSON.Feature<GeoJSON.LineString>[] = [];
+  const radius = TILE_DEG * 0.42;
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < (grid[y]?.length ?? 0); x++) {
+      const tile = grid[y][x];
+      if (!tile.terrain.isCity || (visibility && !visibility[y]?.[x])) continue;
+      const progress = (tile.terrain as City).captureProgress;
+      if (progress <= 0) continue;
+      // Arc from 12 o'clock, clockwise, as far as the capture has got
+      const [cx, cy] = gridToLngLat(x, y);
+      const sweep = Math.min(1, progress / CAPTURE_THRESHOLD) * Math.PI * 2;
+      const steps = Math.max(2, Math.ceil(sweep / (Math.PI / 16)));
+      const coordinates = Array.from({ length: steps + 1 }, (_, i) => {
+        const angle = Math.PI / 2 - sweep * i / steps;
+        return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+      });
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates },
+        properties: { color: tile.unit?.player === 'Blue' ? '#3b82f6' : tile.unit?.player === 'Red' ? '#ef4444' : '#eab308' },
+      });
+    }
+  }
+  return { type: 'FeatureCollection', features };
+}
+
 // ── Helpers ───────────────────────────────────────────────────────────────
 
-function pushData(map: maplibregl.Map, grid: Tile[][]) {
-  (map.getSource('tiles') as maplibregl.GeoJSONSource).setData(buildTileCollection(grid));
+function pushData(map: maplibregl.Map, grid: Tile[][], visibility?: boolean[][]) {
+  (map.getSource('tiles') as maplibregl.GeoJSONSource).setData(buildTileCollection(grid, visibility));
   (map.getSource('units') as maplibregl.GeoJSONSource).setData(buildUnitCollection(grid));
+  (map.getSource('captures') as maplibregl.GeoJSONSource).setData(buildCaptureCollection(grid, visibility));
 }
 
 // ── Component ─────────────────────────────────────────────────────────────
 
 interface MinimapOverlayProps {
   grid: Tile[][];
+  /** Fog of war: visible[y][x] for the viewing side. Omit to show everything. */
+  visibility?: boolean[][];
 }
 
-export default function MinimapOverlay({ grid }: MinimapOverlayProps) {
+export default function MinimapOverlay({ grid, visibility }: MinimapOverlayProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef       = useRef<maplibregl.Map | null>(null);
   const loadedRef    = useRef(false);
   const latestGrid   = useRef(grid);
+  const latestVis    = useRef(visibility);
 
-  // Keep a ref to the latest grid so the 'load' callback always sees current data.
-  useEffect(() => { latestGrid.current = grid; }, [grid]);
+  // Keep refs to the latest data so the 'load' callback always sees current data.
+  useEffect(() => { latestGrid.current = grid; latestVis.current = visibility; }, [grid, visibility]);
 
   // Initialise the MapLibre map once.
   useEffect(() => {
@@ -130,7 +166,7 @@ export default function MinimapOverlay({ grid }: MinimapOverlayProps) {
         id: 'tiles-fill',
         type: 'fill',
         source: 'tiles',
-        paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.92 },
+        paint: { 'fill-color': ['get', 'color'], 'fill-opacity': ['get', 'opacity'] },
       });
       map.addLayer({
         id: 'tiles-outline',
@@ -139,6 +175,15 @@ export default function MinimapOverlay({ grid }: MinimapOverlayProps) {
         paint: { 'line-color': '#00000040', 'line-width': 0.5 },
       });
 
+      // Capture progress rings around contested cities
+      map.addSource('captures', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+      map.addLayer({
+        id: 'captures-line',
+        type: 'line',
+        source: 'captures',
+        paint: { 'line-color': ['get', 'color'], 'line-width': 2 },
+      });
+
       // Unit dots
       map.addSource('units', { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
       map.addLayer({
@@ -157,7 +202,7 @@ export default function MinimapOverlay({ grid }: MinimapOverlayProps) {
 
       // Hydrate immediately if grid is already available.
       if (latestGrid.current.length > 0) {
-        pushData(map, latestGrid.current);
+        pushData(map, latestGrid.current, latestVis.current);
       }
     });
 
@@ -172,8 +217,8 @@ export default function MinimapOverlay({ grid }: MinimapOverlayProps) {
   // Sync unit positions whenever game state changes.
   useEffect(() => {
     if (!mapRef.current || !loadedRef.current || grid.length === 0) return;
-    pushData(mapRef.current, grid);
-  }, [grid]);
+    pushData(mapRef.current, grid, visibility);
+  }, [grid, visibility]);
 
   return (
     <div className="absolute bottom-3 right-3 z-10 rounded-lg overflow-hidden shadow-xl border-2 border-white/30">
@@ -1,212 +1,127 @@
-import type { Unit, Tile, UnitType, City } from '../types/game';
-import { GRID_SIZE, UNIT_COSTS } from './constants';
-import { calculateDamage } from './combat';
-import { createUnit } from './units';
-
-interface AIContext {
-  grid: Tile[][];
-  actionPoints: number;
-  cooldowns: Record<string, number>;
+import type { City, Player, UnitType } from '../types/game';
+import { AI_SEARCH_TIME_LIMIT, BASE_DAMAGE, BUILDABLE_UNITS, GRID_SIZE, UNIT_COSTS, UNIT_TYPES } from './constants';
+import { canPlayerAct, isUnitReady, type GameState } from './engine';
+import { calculateMovementRange } from './grid';
+import { randomInt, type Rng } from './rng';
+import { viewGridFor } from './vision';
+import { type AIAction, type Located, listOptions, locateUnits, otherPlayer } from './aiOptions';
+import { searchBestAction } from './aiSearch';
+import { type AIPersonality, DEFAULT_PERSONALITY, PERSONALITIES, type PersonalityId } from './personalities';
+
+export { type AIAction, toEngineActions } from './aiOptions';
+
+export interface AIContext {
+  state: GameState;
   difficulty: 'easy' | 'medium' | 'hard';
-  funds: number;
+  now: number;
+  /** Seeded source for every tie-break, so AI games replay identically. */
+  rng: Rng;
+  /** Side the AI plays; Blue unless set. */
+  player?: Player;
+  /** Play style (personalities.ts); Balanced unless set. */
+  personality?: PersonalityId;
+  /** Hard only: planning budget per decision in ms (defaults to AI_SEARCH_TIME_LIMIT). */
+  timeLimitMs?: number;
 }
 
-type AIAction = {
-  type: 'attack';
-  unit: Unit;
-  targetX: number;
-  targetY: number;
-  damage: number;
-  newGrid: Tile[][];
-} | {
-  type: 'move';
-  unit: Unit;
-  fromX: number;
-  fromY: number;
-  toX: number;
-  toY: number;
-  newGrid: Tile[][];
-} | {
-  type: 'produce';
-  unit: Unit;
-  unitType: UnitType;
-  x: number;
-  y: number;
-  cost: number;
-  newGrid: Tile[][];
-};
-
+/**
+ * Pick the AI side's next action. Plain engine actions go straight to
+ * `applyAction`; combos expand with `toEngineActions`, exactly like a
+ * player-issued sequence. Hard hands unit actions to the search planner.
+ * The game calls this from a worker (ai.worker.ts), never on the main thread.
+ */
 export const computeAIAction = (ctx: AIContext): AIAction | null => {
-  const { grid, actionPoints, cooldowns, difficulty, funds } = ctx;
-  const currentTime = Date.now();
-
-  if (actionPoints <= 0 || grid.length === 0) return null;
-
-  // Find available Blue units (not on cooldown)
-  const available: { unit: Unit; x: number; y: number }[] = [];
-  for (let y = 0; y < GRID_SIZE; y++) {
-    for (let x = 0; x < GRID_SIZE; x++) {
-      const unit = grid[y][x].unit;
-      if (unit?.player === 'Blue') {
-        const cd = cooldowns[unit.id];
-        if (!cd || currentTime >= cd) {
-          available.push({ unit, x, y });
-        }
-      }
-    }
-  }
-
-  // Find all Red units
-  const redUnits: { unit: Unit; x: number; y: number }[] = [];
-  // Blue-owned empty cities (factory candidates)
-  const blueFactories: { x: number; y: number }[] = [];
+  const { state, difficulty, now: currentTime, rng } = ctx;
+  const me = ctx.player ?? 'Blue';
+  const personality = PERSONALITIES[ctx.personality ?? DEFAULT_PERSONALITY];
+  // Under fog of war the AI only knows what its own side can see
+  const view: GameState = { ...state, grid: viewGridFor(state, me) };
+  const grid = view.grid;
+  const funds = state.resources[me];
+
+  if (state.winner || !canPlayerAct(state, me) || grid.length === 0) return null;
+
+  // Available units (off cooldown / not yet used this turn) and visible enemies
+  const available = locateUnits(grid, me).filter(({ unit }) => isUnitReady(state, unit, currentTime));
+  const enemies = locateUnits(grid, otherPlayer(me));
+  // Nothing to fight — unless the enemy is merely hidden in the fog
+  if (enemies.length === 0 && !state.fogOfWar) return null;
+
+  // Owned, empty cities (factory candidates)
+  const factories: { x: number; y: number }[] = [];
   for (let y = 0; y < GRID_SIZE; y++) {
     for (let x = 0; x < GRID_SIZE; x++) {
       const tile = grid[y][x];
-      const unit = tile.unit;
-      if (unit?.player === 'Red') redUnits.push({ unit, x, y });
-      if (tile.terrain.isCity && !unit && (tile.terrain as City).owner === 'Blue') {
-        blueFactories.push({ x, y });
-      }
+      if (tile.terrain.isCity && !tile.unit && (tile.terrain as City).owner === me) factories.push({ x, y });
     }
   }
-  if (redUnits.length === 0) return null;
 
   // ── Produce a unit from an owned, empty city (if affordable) ─────────────
-  // Preferred order by difficulty: hard/medium favour Tank when outnumbered.
-  const blueCount = available.length;
-  const redCount = redUnits.length;
-  const outnumbered = blueCount < redCount;
-
-  if (blueFactories.length > 0) {
-    const order: UnitType[] = difficulty === 'easy'
-      ? ['Infantry', 'Tank', 'Artillery', 'Chopper']
-      : outnumbered
-        ? ['Tank', 'Chopper', 'Artillery', 'Infantry']
-        : ['Artillery', 'Tank', 'Chopper', 'Infantry'];
-
-    const affordable = order.find(t => funds >= UNIT_COSTS[t]);
+  // Easy buys the cheapest thing it can; medium/hard counter what they see.
+  if (factories.length > 0) {
+    const affordable = difficulty === 'easy'
+      ? BUILDABLE_UNITS.find(t => funds >= UNIT_COSTS[t])
+      : choosePurchase(funds, locateUnits(grid, me), enemies, personality);
     if (affordable) {
-      const factory = blueFactories[Math.floor(Math.random() * blueFactories.length)];
-      const newGrid: Tile[][] = grid.map(row =>
-        row.map(tile => ({
-          ...tile,
-          unit: tile.unit ? { ...tile.unit } : null,
-          terrain: { ...tile.terrain },
-        }))
-      );
-      const newUnit = createUnit(affordable, [factory.x, factory.y], 'Blue');
-      newGrid[factory.y][factory.x].unit = newUnit;
-      return {
-        type: 'produce',
-        unit: newUnit,
-        unitType: affordable,
-        x: factory.x,
-        y: factory.y,
-        cost: UNIT_COSTS[affordable],
-        newGrid,
-      };
+      const factory = factories[randomInt(rng, factories.length)];
+      return { type: 'produce', player: me, unitType: affordable, at: [factory.x, factory.y], now: currentTime };
     }
   }
 
   if (available.length === 0) return null;
 
-  // Pick a unit — prefer those that can attack
-  let chosen: { unit: Unit; x: number; y: number };
-  const canAttack = available.filter(({ unit, x, y }) =>
-    unit.attackRange > 0 && redUnits.some(red => {
-      const dist = Math.abs(red.x - x) + Math.abs(red.y - y);
-      return dist <= unit.attackRange;
-    })
-  );
-
   if (difficulty === 'easy') {
-    chosen = available[Math.floor(Math.random() * available.length)];
-  } else if (canAttack.length > 0) {
-    chosen = canAttack[Math.floor(Math.random() * canAttack.length)];
-  } else {
-    chosen = available[Math.floor(Math.random() * available.length)];
-  }
-
-  const { unit, x: ux, y: uy } = chosen;
-
-  // Deep copy grid for modification
-  const newGrid: Tile[][] = grid.map(row =>
-    row.map(tile => ({
-      ...tile,
-      unit: tile.unit ? { ...tile.unit } : null,
-      terrain: { ...tile.terrain },
-    }))
-  );
-
-  // Try to attack first
-  const attackTargets = redUnits.filter(red => {
-    const dist = Math.abs(red.x - ux) + Math.abs(red.y - uy);
-    return dist <= unit.attackRange;
-  });
-
-  if (attackTargets.length > 0 && unit.attackRange > 0) {
-    let target: typeof attackTargets[0];
-    if (difficulty === 'easy') {
-      target = attackTargets[Math.floor(Math.random() * attackTargets.length)];
-    } else if (difficulty === 'hard') {
-      target = attackTargets.reduce((best, t) => {
-        const dmg = calculateDamage(unit, t.unit, grid[t.y][t.x].terrain);
-        const bestDmg = calculateDamage(unit, best.unit, grid[best.y][best.x].terrain);
-        const tScore = t.unit.health <= dmg ? 10000 : 1000 - t.unit.health;
-        const bestScore = best.unit.health <= bestDmg ? 10000 : 1000 - best.unit.health;
-        return tScore > bestScore ? t : best;
-      });
-    } else {
-      target = attackTargets.reduce((w, t) => t.unit.health < w.unit.health ? t : w);
+    // Easy: a random unit captures or attacks where it stands, otherwise wanders
+    const { unit, x: ux, y: uy } = available[randomInt(rng, available.length)];
+    const terrain = grid[uy][ux].terrain;
+    if (unit.type === 'Infantry' && terrain.isCity && (terrain as City).owner !== me) {
+      return { type: 'capture', at: [ux, uy], now: currentTime };
     }
-
-    const damage = calculateDamage(unit, target.unit, newGrid[target.y][target.x].terrain);
-    const newHealth = target.unit.health - damage;
-    if (newHealth <= 0) {
-      newGrid[target.y][target.x].unit = null;
-    } else {
-      newGrid[target.y][target.x].unit = { ...target.unit, health: newHealth };
-    }
-
-    return { type: 'attack', unit, targetX: target.x, targetY: target.y, damage, newGrid };
-  }
-
-  // No attack possible — move toward nearest enemy
-  const nearestEnemy = redUnits.reduce((nearest, red) => {
-    const dist = Math.abs(red.x - ux) + Math.abs(red.y - uy);
-    const nearestDist = Math.abs(nearest.x - ux) + Math.abs(nearest.y - uy);
-    return dist < nearestDist ? red : nearest;
-  });
-
-  // Find valid moves (simple Manhattan for AI)
-  const validMoves: [number, number][] = [];
-  for (let dx = -unit.moveRange; dx <= unit.moveRange; dx++) {
-    for (let dy = -unit.moveRange; dy <= unit.moveRange; dy++) {
-      if (Math.abs(dx) + Math.abs(dy) > unit.moveRange) continue;
-      const nx = ux + dx, ny = uy + dy;
-      if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
-      if (nx === ux && ny === uy) continue;
-      if (newGrid[ny][nx].unit !== null) continue;
-      validMoves.push([nx, ny]);
+    const targets = enemies.filter(e => Math.abs(e.x - ux) + Math.abs(e.y - uy) <= unit.attackRange);
+    if (targets.length > 0 && unit.attackRange > 0) {
+      const target = targets[randomInt(rng, targets.length)];
+      return { type: 'attack', from: [ux, uy], target: [target.x, target.y], now: currentTime };
     }
+    const moves = calculateMovementRange(unit, grid);
+    if (moves.length === 0) return state.mode === 'turns' ? { type: 'wait', at: [ux, uy], now: currentTime } : null;
+    return { type: 'move', from: [ux, uy], to: moves[randomInt(rng, moves.length)], now: currentTime };
   }
 
-  if (validMoves.length === 0) return null;
-
-  let bestPos: [number, number];
-  if (difficulty === 'easy') {
-    bestPos = validMoves[Math.floor(Math.random() * validMoves.length)];
-  } else {
-    bestPos = validMoves.reduce((best, [nx, ny]) => {
-      const dist = Math.abs(nx - nearestEnemy.x) + Math.abs(ny - nearestEnemy.y);
-      const bestDist = Math.abs(best[0] - nearestEnemy.x) + Math.abs(best[1] - nearestEnemy.y);
-      return dist < bestDist ? [nx, ny] as [number, number] : best;
-    });
+  // Hard: plan a few actions ahead and weigh the enemy's reply
+  if (difficulty === 'hard') {
+    return searchBestAction(view, me, currentTime, ctx.timeLimitMs ?? AI_SEARCH_TIME_LIMIT, personality);
   }
 
-  newGrid[uy][ux].unit = null;
-  newGrid[bestPos[1]][bestPos[0]].unit = { ...unit, position: bestPos };
+  // Medium: score every option of every ready unit and take the best
+  const candidates = listOptions(view, me, currentTime, false, personality);
+  // Every ready unit is already where it wants to be
+  if (candidates.length === 0) return null;
+  return candidates.reduce((b, c) => c.score > b.score ? c : b).action;
+};
 
-  return { type: 'move', unit, fromX: ux, fromY: uy, toX: bestPos[0], toY: bestPos[1], newGrid };
+// ── Production ────────────────────────────────────────────────────────────
+
+const COMPOSITION_WEIGHT = 1; // how hard the personality's army mix pulls against pure countering
+
+/**
+ * The affordable unit type that trades best against the enemy units in
+ * sight (funds it can destroy minus funds it stands to lose, per funds
+ * spent), nudged toward whatever the personality's army is short of.
+ */
+const choosePurchase = (funds: number, own: Located[], enemies: Located[], personality: AIPersonality): UnitType | undefined => {
+  const score = (type: UnitType) => {
+    let counter = 0;
+    for (const { unit } of enemies) {
+      const strength = unit.health / UNIT_TYPES[unit.type].health;
+      const dealt = BASE_DAMAGE[type][unit.type] * UNIT_COSTS[unit.type];
+      const taken = BASE_DAMAGE[unit.type][type] * UNIT_COSTS[type] * strength;
+      counter += (dealt - taken) / (100 * UNIT_COSTS[type]);
+    }
+    if (enemies.length > 0) counter /= enemies.length;
+    const share = own.filter(o => o.unit.type === type).length / Math.max(own.length, 1);
+    return counter + COMPOSITION_WEIGHT * (personality.composition[type] - share);
+  };
+  const affordable = BUILDABLE_UNITS.filter(t => funds >= UNIT_COSTS[t]);
+  if (affordable.length === 0) return undefined;
+  return affordable.reduce((best, t) => score(t) > score(best) ? t : best);
 };
@@ -0,0 +1,31 @@
+/**
+ * ai.worker.ts
+ *
+ * Runs `computeAIAction` off the main thread, so AI thinking — the Hard
+ * planner's search in particular, on a 30×30 map — never stalls the 3D
+ * board. Speaks the protocol in aiProtocol.ts; the game talks to it through
+ * aiWorkerClient.ts.
+ */
+
+import { computeAIAction } from "./ai";
+import type { AIWorkerRequest, AIWorkerResponse } from "./aiProtocol";
+import { RULESET_ID, applyRuleset, setGridSize } from "./constants";
+import { createRng } from "./rng";
+import { getRuleset } from "./rulesets";
+
+const reply = (response: AIWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+  const { id, state, player, difficulty, personality, now, rngState } = event.data;
+  try {
+    // Module state isn't shared with the page: size the grid helpers for this
+    // map and load the match's ruleset
+    setGridSize(state.grid.length);
+    if (state.ruleset !== RULESET_ID) applyRuleset(getRuleset(state.ruleset));
+    const rng = createRng(rngState);
+    const action = computeAIAction({ state, player, difficulty, personality, now, rng });
+    reply({ type: "decision", id, action, rngState: rng.state() });
+  } catch (err) {
+    reply({ type: "error", id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,326 @@
+/**
+ * aiOptions.ts
+ *
+ * Everything a side can usefully do right now, each with a heuristic score.
+ * The greedy AI takes the top option; the Hard search (aiSearch.ts) expands
+ * the top few and looks further ahead. Written for either side, so the same
+ * evaluator can also play Red.
+ */
+
+import type { City, Player, Tile, Unit } from "../types/game";
+import { calculateDamage, resolveAttack } from "./combat";
+import { GRID_SIZE, UNIT_COSTS, UNIT_TYPES } from "./constants";
+import { type GameAction, type GameState, applyAction, isUnitReady } from "./engine";
+import { calculateMovementRange, calculatePathCosts } from "./grid";
+import { type AIPersonality, PERSONALITIES } from "./personalities";
+import { type ThreatMap, buildThreatMap, threatDamage } from "./threat";
+
+type MoveAction = Extract<GameAction, { type: "move" }>;
+type AttackAction = Extract<GameAction, { type: "attack" }>;
+type CaptureAction = Extract<GameAction, { type: "capture" }>;
+
+/**
+ * One AI decision. Besides plain engine actions the AI can chain a move with
+ * an attack or a capture from the destination — the same combos the player
+ * gets through the action menu.
+ */
+export type AIAction =
+  | GameAction
+  | { type: "moveAttack"; move: MoveAction; attack: AttackAction }
+  | { type: "moveCapture"; move: MoveAction; capture: CaptureAction };
+
+export interface AIOption {
+  action: AIAction;
+  score: number;
+}
+
+export interface Located {
+  unit: Unit;
+  x: number;
+  y: number;
+}
+
+export const otherPlayer = (player: Player): Player => (player === "Red" ? "Blue" : "Red");
+
+/** The engine actions that carry out an AI decision, in the order to apply them. */
+export const toEngineActions = (action: AIAction): GameAction[] => {
+  switch (action.type) {
+    case "moveAttack":
+      return [action.move, action.attack];
+    case "moveCapture":
+      return [action.move, action.capture];
+    default:
+      return [action];
+  }
+};
+
+/** Apply every step of an AI decision; null if the engine rejects any of them. */
+export const applyAIAction = (state: GameState, action: AIAction): GameState | null => {
+  let next = state;
+  for (const step of toEngineActions(action)) {
+    const result = applyAction(next, step);
+    if (!result.outcome) return null;
+    next = result.state;
+  }
+  return next;
+};
+
+export const locateUnits = (grid: Tile[][], player: Player): Located[] => {
+  const units: Located[] = [];
+  for (let y = 0; y < GRID_SIZE; y++)
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const unit = grid[y][x].unit;
+      if (unit?.player === player) units.push({ unit, x, y });
+    }
+  return units;
+};
+
+// ── Scoring ───────────────────────────────────────────────────────────────
+// Attacks are scored in funds traded (damage × unit cost); captures and
+// factory defence get flat bonuses on the same scale, so a capture beats a
+// chip attack but not a kill.
+
+const KILL_BONUS = 200;
+const CAPTURE_SCORE = 400;
+const CAPTURE_ENEMY_CITY_BONUS = 100; // taking the enemy's income beats taking a neutral city
+const CAPTURE_HQ_BONUS = 600; // the enemy HQ, when taking it wins the match
+const DEFEND_BONUS = 150; // hitting a unit that threatens one of our cities
+const FOCUS_BONUS = 150; // scaled by the target's missing health: finish what others started
+const RETREAT_BONUS = 100; // pulling a badly damaged unit back to a city
+const THREAT_DISTANCE = 3; // enemy units this close to one of our cities count as a threat
+
+const isCapturable = (tile: Tile, player: Player) => !!tile.terrain.isCity && (tile.terrain as City).owner !== player;
+
+/** Funds-weighted value of attacking `target` from `from`; `careful` also weighs the counter-attack. */
+const scoreAttack = (grid: Tile[][], unit: Unit, from: [number, number], target: Located, careful: boolean): number => {
+  const attacker = { ...unit, position: from };
+  const result = resolveAttack(
+    attacker,
+    { ...grid[from[1]][from[0]], unit: attacker },
+    target.unit,
+    grid[target.y][target.x],
+  );
+  let score = (result.damage * UNIT_COSTS[target.unit.type]) / 100;
+  if (result.defenderHealth <= 0) score += KILL_BONUS;
+  if (careful) {
+    score -= ((result.counterDamage ?? 0) * UNIT_COSTS[unit.type]) / 100;
+    if (result.attackerHealth <= 0) score -= KILL_BONUS;
+  }
+  return score;
+};
+
+/**
+ * Funds a unit stands to lose by ending its action on (x, y), beyond what it
+ * gives back: the damage every threatening enemy could deal, minus `dealt`
+ * (what this action inflicts) and the unit's best strike back at one of them
+ * with the health it would have left. `killed` no longer threatens anyone.
+ */
+const tradeLoss = (
+  grid: Tile[][],
+  threats: ThreatMap,
+  unit: Unit,
+  [x, y]: [number, number],
+  dealt: number,
+  killed?: Unit,
+): number => {
+  const attackers = threats[y][x].filter((a) => a.id !== killed?.id);
+  if (attackers.length === 0) return 0;
+  const terrain = grid[y][x].terrain;
+  const taken = threatDamage(attackers, unit, terrain);
+  let strikeBack = 0;
+  if (unit.health > taken && unit.attackRange > 0) {
+    const hurt = { ...unit, health: unit.health - taken };
+    for (const a of attackers) {
+      const value = (calculateDamage(hurt, a, grid[a.position[1]][a.position[0]].terrain) * UNIT_COSTS[a.type]) / 100;
+      strikeBack = Math.max(strikeBack, value);
+    }
+  }
+  return Math.max(0, (taken * UNIT_COSTS[unit.type]) / 100 - dealt - strikeBack);
+};
+
+/** Enemy units within THREAT_DISTANCE of one of `player`'s cities. */
+const findThreats = (grid: Tile[][], player: Player, enemies: Located[]): Located[] => {
+  const cities: { x: number; y: number }[] = [];
+  for (let y = 0; y < GRID_SIZE; y++)
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const terrain = grid[y][x].terrain;
+      if (terrain.isCity && (terrain as City).owner === player) cities.push({ x, y });
+    }
+  return enemies.filter((e) => cities.some((c) => Math.abs(e.x - c.x) + Math.abs(e.y - c.y) <= THREAT_DISTANCE));
+};
+
+/**
+ * Score every option of every ready `player` unit: captures, attacks in
+ * place, move-then-attack, and a step along the route to the unit's goal.
+ * `careful` weighs counter-attack losses into attack scores. Moves that end
+ * where the enemy can punish them harder than the unit hits back lose score
+ * (see `tradeLoss`), and badly damaged units head back to a city. The
+ * personality scales attacks and captures and sets the retreat threshold.
+ */
+export const listOptions = (
+  state: GameState,
+  player: Player,
+  now: number,
+  careful: boolean,
+  personality: AIPersonality = PERSONALITIES.balanced,
+): AIOption[] => {
+  const { grid } = state;
+  const enemies = locateUnits(grid, otherPlayer(player));
+  const threats = findThreats(grid, player, enemies);
+  const threatMap = buildThreatMap(grid, otherPlayer(player));
+  const options: AIOption[] = [];
+  const consider = (action: AIAction, score: number) => {
+    options.push({ action, score });
+  };
+  const inRange = (unit: Unit, x: number, y: number) =>
+    enemies.filter((e) => Math.abs(e.x - x) + Math.abs(e.y - y) <= unit.attackRange);
+
+  for (const { unit, x: ux, y: uy } of locateUnits(grid, player)) {
+    if (!isUnitReady(state, unit, now)) continue;
+    const moves = calculateMovementRange(unit, grid);
+    const move = (to: [number, number]): MoveAction => ({ type: "move", from: [ux, uy], to, now });
+    const captureValue = (x: number, y: number) => {
+      const city = grid[y][x].terrain as City;
+      const hq = state.victory.hqCapture && city.hq !== undefined && city.hq !== player ? CAPTURE_HQ_BONUS : 0;
+      return (CAPTURE_SCORE + (city.owner ? CAPTURE_ENEMY_CITY_BONUS : 0) + hq) * personality.capturePriority;
+    };
+
+    // Capture: keep working on the city we stand on, or walk onto one
+    if (unit.type === "Infantry") {
+      if (isCapturable(grid[uy][ux], player)) {
+        consider({ type: "capture", at: [ux, uy], now }, captureValue(ux, uy) + 50);
+      }
+      for (const [mx, my] of moves) {
+        if (!isCapturable(grid[my][mx], player)) continue;
+        const loss = tradeLoss(grid, threatMap, unit, [mx, my], 0);
+        consider(
+          { type: "moveCapture", move: move([mx, my]), capture: { type: "capture", at: [mx, my], now } },
+          captureValue(mx, my) - loss,
+        );
+      }
+    }
+
+    // Attack from here, or move into range and attack
+    if (unit.attackRange > 0) {
+      const attackValue = (from: [number, number], target: Located) => {
+        const missing = 1 - target.unit.health / UNIT_TYPES[target.unit.type].health;
+        const value =
+          scoreAttack(grid, unit, from, target, careful) +
+          (threats.includes(target) ? DEFEND_BONUS : 0) +
+          FOCUS_BONUS * missing;
+        return value > 0 ? value * personality.aggression : value;
+      };
+      for (const target of inRange(unit, ux, uy)) {
+        consider({ type: "attack", from: [ux, uy], target: [target.x, target.y], now }, attackValue([ux, uy], target));
+      }
+      for (const [mx, my] of moves) {
+        for (const target of inRange(unit, mx, my)) {
+          const attack: AttackAction = { type: "attack", from: [mx, my], target: [target.x, target.y], now };
+          const value = attackValue([mx, my], target);
+          const mover = { ...unit, position: [mx, my] as [number, number] };
+          const killed =
+            resolveAttack(mover, { ...grid[my][mx], unit: mover }, target.unit, grid[target.y][target.x])
+              .defenderHealth <= 0;
+          const loss = tradeLoss(grid, threatMap, unit, [mx, my], value, killed ? target.unit : undefined);
+          // A hair below attacking in place, so units don't shuffle for nothing
+          consider({ type: "moveAttack", move: move([mx, my]), attack }, value - loss - 1);
+        }
+      }
+    }
+
+    // Otherwise head for a goal along the cheapest multi-turn route, preferring
+    // stops the enemy can't punish; badly damaged units fall back to a city
+    if (moves.length === 0) continue;
+    const retreat =
+      unit.health <= UNIT_TYPES[unit.type].health * personality.retreatThreshold
+        ? retreatTarget(grid, player, unit, ux, uy)
+        : null;
+    const goal = retreat ?? chooseGoal(grid, player, unit, ux, uy, enemies, threats);
+    const pathCost = calculatePathCosts(unit, grid, goal);
+    const risk = ([x, y]: [number, number]) => tradeLoss(grid, threatMap, unit, [x, y], 0);
+    const stops = moves.map((to) => ({ to, risk: risk(to) }));
+    const best = stops.reduce((b, c) =>
+      c.risk < b.risk || (c.risk === b.risk && pathCost[c.to[1]][c.to[0]] < pathCost[b.to[1]][b.to[0]]) ? c : b,
+    );
+    const [bx, by] = best.to;
+    const progress = pathCost[uy][ux] - pathCost[by][bx];
+    // Getting out of harm's way counts even without progress
+    const score = Math.min(Number.isFinite(progress) ? progress : 0, 20) + (risk([ux, uy]) - best.risk) / 10;
+    // Already as close as this turn allows (or the goal is walled off)
+    if (!(score > 0)) continue;
+    consider({ type: "move", from: [ux, uy], to: [bx, by], now }, score + (retreat ? RETREAT_BONUS : 0));
+  }
+
+  return options;
+};
+
+/**
+ * Where a unit without a better option should head: Infantry to the nearest
+ * city worth capturing; everyone else to an enemy threatening our cities,
+ * else the nearest enemy, else (fog) a scouting target.
+ */
+const chooseGoal = (
+  grid: Tile[][],
+  player: Player,
+  unit: Unit,
+  ux: number,
+  uy: number,
+  enemies: Located[],
+  threats: Located[],
+): [number, number] => {
+  const dist = (x: number, y: number) => Math.abs(x - ux) + Math.abs(y - uy);
+
+  if (unit.type === "Infantry") {
+    let city: [number, number] | null = null;
+    for (let y = 0; y < GRID_SIZE; y++) {
+      for (let x = 0; x < GRID_SIZE; x++) {
+        const tile = grid[y][x];
+        if (!isCapturable(tile, player) || (tile.unit && tile.unit.id !== unit.id)) continue;
+        if (!city || dist(x, y) < dist(city[0], city[1])) city = [x, y];
+      }
+    }
+    if (city) return city;
+  }
+
+  const pool = threats.length > 0 ? threats : enemies;
+  if (pool.length === 0) return scoutTarget(grid, player, ux, uy);
+  const nearest = pool.reduce((n, e) => (dist(e.x, e.y) < dist(n.x, n.y) ? e : n));
+  return [nearest.x, nearest.y];
+};
+
+/** Nearest city `player` owns that is free (or already under `unit`), or null if there is none. */
+const retreatTarget = (grid: Tile[][], player: Player, unit: Unit, ux: number, uy: number): [number, number] | null => {
+  let best: [number, number] | null = null;
+  let bestDist = Number.POSITIVE_INFINITY;
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const tile = grid[y][x];
+      if (!tile.terrain.isCity || (tile.terrain as City).owner !== player || (tile.unit && tile.unit.id !== unit.id))
+        continue;
+      const dist = Math.abs(x - ux) + Math.abs(y - uy);
+      if (dist < bestDist) {
+        best = [x, y];
+        bestDist = dist;
+      }
+    }
+  }
+  return best;
+};
+
+/** Where to head when fog hides every enemy: the nearest city we don't own, else the enemy's home edge. */
+const scoutTarget = (grid: Tile[][], player: Player, ux: number, uy: number): [number, number] => {
+  // Red starts along the top rows, Blue along the bottom
+  let best: [number, number] = [Math.floor(GRID_SIZE / 2), player === "Blue" ? 0 : GRID_SIZE - 1];
+  let bestDist = Number.POSITIVE_INFINITY;
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      if (!isCapturable(grid[y][x], player)) continue;
+      const dist = Math.abs(x - ux) + Math.abs(y - uy);
+      if (dist < bestDist) {
+        best = [x, y];
+        bestDist = dist;
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,42 @@
+/**
+ * aiProtocol.ts
+ *
+ * Messages between the game and the AI worker (ai.worker.ts). The request
+ * carries a full engine snapshot — grid, funds, AP, cooldowns, turn state —
+ * as plain data, plus the AI's RNG state; the reply carries the decision and
+ * the RNG state after making it. `id` pairs replies with requests.
+ */
+
+import type { Player } from "../types/game";
+import type { AIAction, AIContext } from "./ai";
+import type { GameState } from "./engine";
+import type { PersonalityId } from "./personalities";
+
+export interface AIDecideRequest {
+  type: "decide";
+  id: number;
+  state: GameState;
+  /** Side to decide for: the AI's own (Blue), or Red for a hint. */
+  player: Player;
+  difficulty: AIContext["difficulty"];
+  personality: PersonalityId;
+  now: number;
+  rngState: number;
+}
+
+export type AIWorkerRequest = AIDecideRequest;
+
+export interface AIDecisionResponse {
+  type: "decision";
+  id: number;
+  action: AIAction | null;
+  rngState: number;
+}
+
+export interface AIErrorResponse {
+  type: "error";
+  id: number;
+  message: string;
+}
+
+export type AIWorkerResponse = AIDecisionResponse | AIErrorResponse;
@@ -0,0 +1,146 @@
+/**
+ * aiSearch.ts
+ *
+ * Hard AI planner: a small beam search over real engine actions. Each line of
+ * play is a few of our own actions followed by a greedy reply from the enemy,
+ * and the resulting boards are compared with `evaluateState` — army value,
+ * cities, capture progress, funds and (in real-time) the AP left to spend.
+ * The search stops expanding when its time budget runs out, so it always
+ * answers with the best line found so far.
+ */
+
+import type { City, Player, Tile } from "../types/game";
+import { type AIAction, applyAIAction, listOptions, otherPlayer } from "./aiOptions";
+import { CAPTURE_THRESHOLD } from "./constants";
+import type { GameState } from "./engine";
+import type { AIPersonality } from "./personalities";
+import { countCities, unitValue } from "./victory";
+
+const WIN_SCORE = 100000;
+const CITY_VALUE = 300; // a city is worth about a cheap unit: income, repair and production
+const FUNDS_WEIGHT = 0.5; // unspent funds count, but less than the units they could buy
+const AP_VALUE = 20; // real-time: an action has to gain more than the AP it costs
+
+const SEARCH_DEPTH = 3; // our own actions per line
+const BEAM_WIDTH = 4; // lines kept after each ply
+const BRANCHING = 6; // best-scoring options expanded per line
+const REPLY_DEPTH = 3; // greedy enemy actions played after each line
+
+/** Board value for `player`: positive is good for them, zero-sum with the enemy. */
+export const evaluateState = (state: GameState, player: Player): number => {
+  if (state.winner) return state.winner === player ? WIN_SCORE : -WIN_SCORE;
+  const foe = otherPlayer(player);
+  let score = unitValue(state.grid, player) - unitValue(state.grid, foe);
+  score += (countCities(state.grid, player) - countCities(state.grid, foe)) * CITY_VALUE;
+  score += captureProgress(state.grid, player) - captureProgress(state.grid, foe);
+  score += (state.resources[player] - state.resources[foe]) * FUNDS_WEIGHT;
+  if (state.mode === "realtime") score += (state.actionPoints[player] - state.actionPoints[foe]) * AP_VALUE;
+  return score;
+};
+
+/** Partial city value of captures `player`'s Infantry are working on. */
+const captureProgress = (grid: Tile[][], player: Player): number => {
+  let value = 0;
+  for (const row of grid) {
+    for (const tile of row) {
+      if (!tile.terrain.isCity || tile.unit?.player !== player) continue;
+      const city = tile.terrain as City;
+      if (city.owner !== player) value += (CITY_VALUE * city.captureProgress) / CAPTURE_THRESHOLD;
+    }
+  }
+  return value;
+};
+
+/** Top options for `player` that the engine accepts, paired with the state they lead to. */
+const expand = (state: GameState, player: Player, now: number, personality: AIPersonality) =>
+  listOptions(state, player, now, true, personality)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, BRANCHING)
+    .flatMap(({ action, score }) => {
+      const next = applyAIAction(state, action);
+      return next ? [{ action, score, state: next }] : [];
+    });
+
+/**
+ * Let the enemy answer: in turn mode hand them the turn, in real-time they
+ * act at the same moment. They play their greedy choice a few times.
+ */
+const playReply = (state: GameState, player: Player, now: number): GameState => {
+  const foe = otherPlayer(player);
+  let reply = state;
+  if (reply.mode === "turns" && !reply.winner) {
+    reply = applyAIAction(reply, { type: "endTurn" }) ?? reply;
+  }
+  for (let i = 0; i < REPLY_DEPTH && !reply.winner; i++) {
+    const options = listOptions(reply, foe, now, false);
+    if (options.length === 0) break;
+    const best = options.reduce((b, o) => (o.score > b.score ? o : b));
+    const next = applyAIAction(reply, best.action);
+    if (!next) break;
+    reply = next;
+  }
+  return reply;
+};
+
+interface Line {
+  first: AIAction;
+  state: GameState;
+  value: number;
+}
+
+/**
+ * Best next action for `player`, or null when no unit has anything useful to
+ * do. `state` should already be `player`'s (fogged) view of the board; the
+ * personality shapes which of our options look worth expanding.
+ * `timeLimitMs` bounds the expansion; the final reply scoring of the beam
+ * always runs, so the answer can come a little after the limit.
+ */
+export const searchBestAction = (
+  state: GameState,
+  player: Player,
+  now: number,
+  timeLimitMs: number,
+  personality: AIPersonality,
+): AIAction | null => {
+  const deadline = performance.now() + timeLimitMs;
+  const prune = (lines: Line[]) => lines.sort((a, b) => b.value - a.value).slice(0, BEAM_WIDTH);
+
+  // The heuristic score breaks ties between lines that look alike on the board
+  let beam = prune(
+    expand(state, player, now, personality).map(({ action, score, state: next }) => ({
+      first: action,
+      state: next,
+      value: evaluateState(next, player) + score / 100,
+    })),
+  );
+  if (beam.length === 0) return null;
+
+  for (let depth = 1; depth < SEARCH_DEPTH && performance.now() < deadline; depth++) {
+    const next: Line[] = [];
+    for (const line of beam) {
+      const children = line.state.winner ? [] : expand(line.state, player, now, personality);
+      // A line with nothing left to do competes as it stands
+      if (children.length === 0) next.push(line);
+      for (const child of children) {
+        next.push({
+          first: line.first,
+          state: child.state,
+          value: evaluateState(child.state, player) + child.score / 100,
+        });
+      }
+      if (performance.now() >= deadline) break;
+    }
+    beam = prune(next);
+  }
+
+  let best = beam[0];
+  let bestValue = Number.NEGATIVE_INFINITY;
+  for (const line of beam) {
+    const value = evaluateState(playReply(line.state, player, now), player);
+    if (value > bestValue) {
+      best = line;
+      bestValue = value;
+    }
+  }
+  return best.first;
+};
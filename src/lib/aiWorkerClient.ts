@@ -0,0 +1,67 @@
+/**
+ * aiWorkerClient.ts
+ *
+ * Promise wrapper around the AI worker. The worker is started on the first
+ * request and answers requests in order; each promise settles with the reply
+ * carrying its id.
+ */
+
+import type { AIDecideRequest, AIDecisionResponse, AIWorkerResponse } from "./aiProtocol";
+
+export interface AIWorkerClient {
+  decide: (request: Omit<AIDecideRequest, "type" | "id">) => Promise<AIDecisionResponse>;
+  terminate: () => void;
+}
+
+interface Pending {
+  resolve: (response: AIDecisionResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export const createAIWorkerClient = (): AIWorkerClient => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  const failAll = (error: Error) => {
+    for (const { reject } of pending.values()) reject(error);
+    pending.clear();
+  };
+
+  const start = (): Worker => {
+    const w = new Worker(new URL("./ai.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (event: MessageEvent<AIWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if (response.type === "decision") request.resolve(response);
+      else request.reject(new Error(response.message));
+    };
+    w.onerror = (event) => {
+      // A crashed worker is restarted on the next request
+      failAll(new Error(event.message || "AI worker failed"));
+      w.terminate();
+      worker = null;
+    };
+    return w;
+  };
+
+  return {
+    decide: (request) => {
+      worker ??= start();
+      const id = nextId++;
+      const message: AIDecideRequest = { type: "decide", id, ...request };
+      const target = worker;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        target.postMessage(message);
+      });
+    },
+    terminate: () => {
+      failAll(new Error("AI worker terminated"));
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
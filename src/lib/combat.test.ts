@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Player, Tile, Unit, UnitType } from "../types/game";
+import { calculateDamage, resolveAttack } from "./combat";
+import { BASE_DAMAGE, TERRAIN_TYPES, UNIT_TYPES } from "./constants";
+import { createRng } from "./rng";
+import { createUnit } from "./units";
+
+const rng = createRng(1);
+const unit = (type: UnitType, player: Player = "Red", health = UNIT_TYPES[type].health): Unit => ({
+  ...createUnit(type, [0, 0], player, rng),
+  health,
+});
+const tile = (unit: Unit, position: [number, number]): Tile => ({
+  position,
+  terrain: { ...TERRAIN_TYPES.Plain },
+  unit: { ...unit, position },
+});
+
+/** Attacker at (0,0) hits an adjacent defender at (1,0), both on open ground. */
+const fight = (attacker: Unit, defender: Unit) =>
+  resolveAttack(attacker, tile(attacker, [0, 0]), defender, tile(defender, [1, 0]));
+
+describe("damage matrix", () => {
+  it("uses each matchup from the table at full health on open ground", () => {
+    expect(calculateDamage(unit("Artillery"), unit("Tank", "Blue"), TERRAIN_TYPES.Plain)).toBe(
+      Math.min(UNIT_TYPES.Tank.health, BASE_DAMAGE.Artillery.Tank),
+    );
+    expect(BASE_DAMAGE.Artillery.Tank).toBeGreaterThan(BASE_DAMAGE.Chopper.Infantry);
+  });
+
+  it("scales with the attacker’s health and the defender’s terrain", () => {
+    const full = calculateDamage(unit("Tank"), unit("Infantry", "Blue"), TERRAIN_TYPES.Plain);
+    const half = calculateDamage(
+      unit("Tank", "Red", UNIT_TYPES.Tank.health / 2),
+      unit("Infantry", "Blue"),
+      TERRAIN_TYPES.Plain,
+    );
+    expect(half).toBe(Math.round(BASE_DAMAGE.Tank.Infantry / 2));
+    expect(half).toBeLessThan(full);
+
+    const sheltered = calculateDamage(unit("Tank"), unit("Infantry", "Blue"), TERRAIN_TYPES.Mountain);
+    expect(sheltered).toBe(Math.round(BASE_DAMAGE.Tank.Infantry * (1 - TERRAIN_TYPES.Mountain.defenseBonus / 100)));
+  });
+
+  it("deals at least 1 and never more than the defender has left", () => {
+    expect(calculateDamage(unit("Infantry", "Red", 1), unit("Tank", "Blue"), TERRAIN_TYPES.Mountain)).toBe(1);
+    expect(calculateDamage(unit("Artillery"), unit("Infantry", "Blue", 3), TERRAIN_TYPES.Plain)).toBe(3);
+  });
+});
+
+describe("counter-attacks", () => {
+  it("strike back from the defender’s health after the hit", () => {
+    const attacker = unit("Infantry");
+    const defender = unit("Tank", "Blue");
+    const result = fight(attacker, defender);
+    const hurt = { ...defender, health: result.defenderHealth };
+    expect(result.counterDamage).toBe(calculateDamage(hurt, attacker, TERRAIN_TYPES.Plain));
+    expect(result.attackerHealth).toBe(UNIT_TYPES.Infantry.health - (result.counterDamage ?? 0));
+  });
+
+  it("never come from artillery or a destroyed defender", () => {
+    expect(fight(unit("Infantry"), unit("Artillery", "Blue")).counterDamage).toBeNull();
+
+    const result = fight(unit("Tank"), unit("Infantry", "Blue", 1));
+    expect(result.defenderHealth).toBe(0);
+    expect(result.counterDamage).toBeNull();
+  });
+});
@@ -1,10 +1,62 @@
 import type { Unit, Terrain, Tile } from '../types/game';
-import { GRID_SIZE } from './constants';
+import { BASE_DAMAGE, GRID_SIZE, UNIT_TYPES } from './constants';
 
-export const calculateDamage = (attacker: Unit, defender: Unit, defenderTerrain: Terrain): number => {
-  const terrainDefense = defender.defense * (defenderTerrain.defenseBonus / 100);
-  const damage = Math.max(0, attacker.attack - (defender.defense + terrainDefense));
-  return Math.min(defender.health, Math.max(10, damage));
+/** How a hit was computed: damage = base × health factor × (1 − terrain defense %). */
+export interface DamageBreakdown {
+  /** Matchup damage for a full-health attacker (BASE_DAMAGE). */
+  base: number;
+  /** Defender's terrain defense bonus, in percent. */
+  terrainDefense: number;
+  /** Attacker's remaining health as a fraction of its maximum. */
+  healthFactor: number;
+  /** Final damage, at least 1 and capped at the defender's health. */
+  damage: number;
+}
+
+export const getDamageBreakdown = (attacker: Unit, defender: Unit, defenderTerrain: Terrain): DamageBreakdown => {
+  const base = BASE_DAMAGE[attacker.type][defender.type];
+  const terrainDefense = defenderTerrain.defenseBonus;
+  const healthFactor = Math.max(0, attacker.health) / UNIT_TYPES[attacker.type].health;
+  const raw = Math.round(base * healthFactor * (1 - terrainDefense / 100));
+  return { base, terrainDefense, healthFactor, damage: Math.min(defender.health, Math.max(1, raw)) };
+};
+
+export const calculateDamage = (attacker: Unit, defender: Unit, defenderTerrain: Terrain): number =>
+  getDamageBreakdown(attacker, defender, defenderTerrain).damage;
+
+/** Close-range defenders (attackRange 1) strike back at an adjacent attacker; Artillery and Choppers never counter. */
+export const canCounterAttack = (defender: Unit, attackerPos: [number, number], defenderPos: [number, number]): boolean => {
+  const distance = Math.abs(defenderPos[0] - attackerPos[0]) + Math.abs(defenderPos[1] - attackerPos[1]);
+  return defender.attackRange === 1 && distance <= 1;
+};
+
+export interface AttackResolution {
+  damage: number;
+  /** How `damage` was computed, for forecasts. */
+  breakdown: DamageBreakdown;
+  /** Damage dealt back to the attacker, or null when no counter-attack happens. */
+  counterDamage: number | null;
+  defenderHealth: number;
+  attackerHealth: number;
+}
+
+/**
+ * Resolve a single attack plus the defender's counter-attack. Pure — the
+ * caller decides what to do with the resulting health values. Combat has no
+ * randomness, so the UI calls this directly to forecast an attack.
+ */
+export const resolveAttack = (attacker: Unit, attackerTile: Tile, defender: Unit, defenderTile: Tile): AttackResolution => {
+  const breakdown = getDamageBreakdown(attacker, defender, defenderTile.terrain);
+  const { damage } = breakdown;
+  const defenderHealth = defender.health - damage;
+
+  if (defenderHealth <= 0 || !canCounterAttack(defender, attackerTile.position, defenderTile.position)) {
+    return { damage, breakdown, counterDamage: null, defenderHealth, attackerHealth: attacker.health };
+  }
+
+  // The counter is computed from the defender's post-hit health
+  const counterDamage = calculateDamage({ ...defender, health: defenderHealth }, attacker, attackerTile.terrain);
+  return { damage, breakdown, counterDamage, defenderHealth, attackerHealth: attacker.health - counterDamage };
 };
 
 export const countPlayerUnits = (grid: Tile[][], player: 'Red' | 'Blue'): number => {
@@ -1,4 +1,5 @@
-import type { UnitType, Terrain, TerrainType, Unit } from '../types/game';
+import type { MovementClass, UnitType, Terrain, TerrainType, Unit } from '../types/game';
+import { DEFAULT_RULESET, getRuleset, type Ruleset } from './rulesets';
 
 export let GRID_SIZE = 10;
 
@@ -7,63 +8,88 @@ export let GRID_SIZE = 10;
 export function setGridSize(n: number) {
   GRID_SIZE = n;
 }
-export const COOLDOWN_DURATION = 10000; // 10 seconds
-export const AP_REGEN_INTERVAL = 10000; // 1 AP every 10 seconds
 export const AI_ACTION_INTERVAL = 3000; // AI tries to act every 3 seconds
-export const MAX_AP = 10;
-
-export const UNIT_COSTS: Record<UnitType, number> = {
-  Infantry: 100,
-  Tank: 300,
-  Artillery: 250,
-  Chopper: 400,
-};
-
-export const UNIT_TYPES: Record<UnitType, Omit<Unit, 'id' | 'position' | 'player'>> = {
-  Infantry: {
-    type: 'Infantry',
-    health: 100,
-    attack: 55,
-    defense: 10,
-    moveRange: 3,
-    attackRange: 1,
-  },
-  Tank: {
-    type: 'Tank',
-    health: 100,
-    attack: 75,
-    defense: 30,
-    moveRange: 5,
-    attackRange: 1,
-  },
-  Artillery: {
-    type: 'Artillery',
-    health: 100,
-    attack: 90,
-    defense: 5,
-    moveRange: 3,
-    attackRange: 3,
-  },
-  Chopper: {
-    type: 'Chopper',
-    health: 100,
-    attack: 65,
-    defense: 15,
-    moveRange: 6,
-    attackRange: 2,
-  },
-};
-
-export const TERRAIN_TYPES: Record<TerrainType, Terrain> = {
-  Plain: { type: 'Plain', defenseBonus: 0, movementCost: 1 },
-  Mountain: { type: 'Mountain', defenseBonus: 30, movementCost: 3 },
-  Forest: { type: 'Forest', defenseBonus: 10, movementCost: 2 },
-  City: {
-    type: 'City',
-    defenseBonus: 20,
-    movementCost: 1,
-    isCity: true,
-  },
-  Road: { type: 'Road', defenseBonus: 0, movementCost: 0.5 },
-  Water: { type: 'Water', defenseBonus: 0, movementCost: 4 },
-};
+export const AI_SEARCH_TIME_LIMIT = 800; // hard AI: planning budget per decision, in ms
+export const HINTS_PER_MATCH = 3; // Hint button uses per match
+export const AI_TURN_STEP_DELAY = 700; // turn mode: pause between the AI's actions so the player can follow them
+export const MOUNTAIN_VISION_BONUS = 2; // extra sight for a unit standing on a mountain
+export const CITY_VISION = 1; // owned cities reveal their surroundings
+
+// ── Ruleset ───────────────────────────────────────────────────────────────
+// Everything below comes from the active ruleset (src/rulesets/*.json, see
+// rulesets.ts) and starts out as Classic. Like GRID_SIZE these are live
+// bindings: applyRuleset swaps them before a match is set up.
+
+const UNIT_TYPE_LIST: UnitType[] = ['Infantry', 'Tank', 'Artillery', 'Chopper'];
+export const TERRAIN_TYPE_LIST: TerrainType[] = ['Plain', 'Mountain', 'Forest', 'City', 'Road', 'Water'];
+
+const perUnit = <T>(pick: (type: UnitType) => T): Record<UnitType, T> =>
+  Object.fromEntries(UNIT_TYPE_LIST.map(type => [type, pick(type)])) as Record<UnitType, T>;
+
+/** Id of the ruleset the constants below were taken from. */
+export let RULESET_ID = DEFAULT_RULESET;
+
+export let COOLDOWN_DURATION = 0; // ms a unit is locked after acting (real-time)
+export let AP_REGEN_INTERVAL = 0; // ms per +1 AP (real-time)
+export let INCOME_INTERVAL = 0; // real-time: owned cities pay out this often, in ms
+export let MAX_AP = 0;
+export let STARTING_AP = 0;
+export let CAPTURE_THRESHOLD = 0; // capture points needed to take a city
+export let CAPTURE_REWARD = 0; // funds awarded on a successful capture
+export let CITY_INCOME = 0; // funds per owned city at each income tick / turn start
+export let REPAIR_AMOUNT = 0; // hp restored to units on their own city at turn start
+
+export let UNIT_COSTS = {} as Record<UnitType, number>;
+export let UNIT_TYPES = {} as Record<UnitType, Omit<Unit, 'id' | 'position' | 'player'>>;
+/** Unit types factories can produce. */
+export let BUILDABLE_UNITS: UnitType[] = [];
+
+// Base damage (% of a full-health defender) dealt by a full-health attacker,
+// before terrain: BASE_DAMAGE[attacker][defender]
+export let BASE_DAMAGE = {} as Record<UnitType, Record<UnitType, number>>;
+
+// Fog of war: tiles (Manhattan distance) each unit type can see
+export let UNIT_VISION = {} as Record<UnitType, number>;
+
+export let TERRAIN_TYPES = {} as Record<TerrainType, Terrain>;
+
+export let UNIT_MOVEMENT_CLASS = {} as Record<UnitType, MovementClass>;
+
+// Movement points to enter a tile, per movement class; null = impassable.
+// Naval is ready for ships — nothing uses it yet.
+export let MOVEMENT_COSTS = {} as Record<MovementClass, Record<TerrainType, number | null>>;
+
+/** Make `ruleset` the active rules. Call before generating a new grid — terrain
+ *  and units copy their stats when they are created. */
+export function applyRuleset(ruleset: Ruleset) {
+  const { units, timing, economy } = ruleset;
+  RULESET_ID = ruleset.id;
+  COOLDOWN_DURATION = timing.cooldownDuration;
+  AP_REGEN_INTERVAL = timing.apRegenInterval;
+  INCOME_INTERVAL = timing.incomeInterval;
+  MAX_AP = timing.maxAP;
+  STARTING_AP = timing.startingAP;
+  CAPTURE_THRESHOLD = economy.captureThreshold;
+  CAPTURE_REWARD = economy.captureReward;
+  CITY_INCOME = economy.cityIncome;
+  REPAIR_AMOUNT = economy.repairAmount;
+
+  UNIT_COSTS = perUnit(type => units[type].cost);
+  UNIT_TYPES = perUnit(type => {
+    const { health, moveRange, attackRange } = units[type];
+    return { type, health, moveRange, attackRange };
+  });
+  BUILDABLE_UNITS = UNIT_TYPE_LIST.filter(type => units[type].buildable);
+  BASE_DAMAGE = perUnit(type => ({ ...ruleset.damage[type] }));
+  UNIT_VISION = perUnit(type => units[type].vision);
+  UNIT_MOVEMENT_CLASS = perUnit(type => units[type].movementClass);
+  MOVEMENT_COSTS = { ...ruleset.movementCosts };
+  TERRAIN_TYPES = Object.fromEntries(TERRAIN_TYPE_LIST.map(type => [
+    type,
+    type === 'City'
+      ? { type, defenseBonus: ruleset.terrain[type].defenseBonus, isCity: true }
+      : { type, defenseBonus: ruleset.terrain[type].defenseBonus },
+  ])) as Record<TerrainType, Terrain>;
+}
+
+applyRuleset(getRuleset(DEFAULT_RULESET));
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { City, Player, Tile, UnitType } from "../types/game";
+import { CAPTURE_REWARD, CAPTURE_THRESHOLD, GRID_SIZE, STARTING_AP, TERRAIN_TYPES, setGridSize } from "./constants";
+import { type GameMode, type GameState, applyAction, capturePoints, createGameState } from "./engine";
+import { createRng } from "./rng";
+import { createUnit } from "./units";
+
+// A 10×10 plain board with a neutral city at (2,1), Red Infantry at (1,1) and Tank at (1,3),
+// Blue Infantry at (4,1) — close enough for a move-then-attack, far from any annihilation
+const setup = (mode: GameMode): GameState => {
+  const rng = createRng(1);
+  const grid: Tile[][] = Array.from({ length: GRID_SIZE }, (_, y) =>
+    Array.from({ length: GRID_SIZE }, (_, x) => ({
+      position: [x, y],
+      terrain: { ...TERRAIN_TYPES.Plain },
+      unit: null,
+    })),
+  );
+  grid[1][2].terrain = { ...TERRAIN_TYPES.City, owner: null, captureProgress: 0 } as City;
+  const place = (type: UnitType, [x, y]: [number, number], player: Player) => {
+    grid[y][x].unit = createUnit(type, [x, y], player, rng);
+  };
+  place("Infantry", [1, 1], "Red");
+  place("Tank", [1, 3], "Red");
+  place("Infantry", [4, 1], "Blue");
+  return createGameState(grid, { seed: 1, mode });
+};
+
+/** Apply actions in order, failing the test on the first rejection. */
+const play = (state: GameState, ...actions: Parameters<typeof applyAction>[1][]): GameState =>
+  actions.reduce((current, action) => {
+    const result = applyAction(current, action);
+    expect(result.error).toBeUndefined();
+    return result.state;
+  }, state);
+
+beforeEach(() => setGridSize(10));
+
+describe("realtime actions", () => {
+  it("lets a moved unit attack once without paying again", () => {
+    const moved = play(setup("realtime"), { type: "move", from: [1, 1], to: [3, 1], now: 0 });
+    expect(moved.actionPoints.Red).toBe(STARTING_AP - 1);
+    expect(moved.followUp.Red).toBe(moved.grid[1][3].unit?.id);
+
+    const result = applyAction(moved, { type: "attack", from: [3, 1], target: [4, 1], now: 0 });
+    expect(result.outcome?.type).toBe("attack");
+    expect(result.state.actionPoints.Red).toBe(STARTING_AP - 1);
+    expect(result.state.followUp.Red).toBeNull();
+
+    // The follow-up is spent: the unit is on cooldown from its move
+    const again = applyAction(result.state, { type: "attack", from: [3, 1], target: [4, 1], now: 0 });
+    expect(again.error).toBe("Unit is on cooldown");
+  });
+
+  it("refuses a second move from the same unit", () => {
+    const moved = play(setup("realtime"), { type: "move", from: [1, 1], to: [2, 2], now: 0 });
+    const result = applyAction(moved, { type: "move", from: [2, 2], to: [3, 2], now: 0 });
+    expect(result.outcome).toBeNull();
+    expect(result.error).toBe("Unit is on cooldown");
+    expect(result.state).toBe(moved);
+  });
+
+  it("drops the follow-up once the side does something else", () => {
+    const state = play(
+      setup("realtime"),
+      { type: "move", from: [1, 1], to: [3, 1], now: 0 },
+      { type: "move", from: [1, 3], to: [1, 4], now: 0 },
+    );
+    expect(state.followUp.Red).toBe(state.grid[4][1].unit?.id);
+    expect(applyAction(state, { type: "attack", from: [3, 1], target: [4, 1], now: 0 }).error).toBe(
+      "Unit is on cooldown",
+    );
+  });
+
+  it("needs AP to act", () => {
+    const broke = { ...setup("realtime"), actionPoints: { Red: 0, Blue: 0 } };
+    expect(applyAction(broke, { type: "move", from: [1, 1], to: [2, 2], now: 0 }).error).toBe("No AP!");
+    expect(applyAction(broke, { type: "capture", at: [1, 1], now: 0 }).error).toBe(
+      "No AP to capture! Wait for regeneration",
+    );
+  });
+
+  it("ends the unit with wait, and wait after a move only gives up the follow-up", () => {
+    const waited = play(setup("realtime"), { type: "wait", at: [1, 3], now: 0 });
+    expect(waited.cooldowns[waited.grid[3][1].unit?.id ?? ""]).toBeGreaterThan(0);
+
+    const moved = play(setup("realtime"), { type: "move", from: [1, 1], to: [2, 2], now: 0 });
+    const after = play(moved, { type: "wait", at: [2, 2], now: 0 });
+    expect(after.followUp.Red).toBeNull();
+    expect(after.actionPoints).toEqual(moved.actionPoints);
+    expect(after.cooldowns).toEqual(moved.cooldowns);
+  });
+});
+
+describe("turn actions", () => {
+  it("lets each unit move then follow up once per turn", () => {
+    const state = play(
+      setup("turns"),
+      { type: "move", from: [1, 1], to: [2, 2], now: 0 },
+      { type: "wait", at: [2, 2], now: 0 },
+    );
+    expect(state.acted).toEqual([state.grid[2][2].unit?.id]);
+    expect(applyAction(state, { type: "move", from: [2, 2], to: [3, 2], now: 0 }).error).toBe(
+      "Unit already acted this turn",
+    );
+  });
+
+  it("refuses the other side's units and resets at the next turn", () => {
+    const state = setup("turns");
+    expect(applyAction(state, { type: "move", from: [4, 1], to: [5, 1], now: 0 }).error).toBe("It's Red's turn");
+
+    const moved = play(state, { type: "move", from: [1, 1], to: [2, 2], now: 0 });
+    const blueTurn = play(moved, { type: "endTurn" });
+    expect(blueTurn.activePlayer).toBe("Blue");
+    expect(blueTurn.acted).toEqual([]);
+    expect(blueTurn.followUp).toEqual({ Red: null, Blue: null });
+    expect(applyAction(blueTurn, { type: "regenAP" }).error).toBe("No AP in turn mode");
+  });
+});
+
+describe("city capture", () => {
+  const cityAt = (state: GameState) => state.grid[1][2].terrain as City;
+  /** Red's infantry walks onto the city and starts capturing, then the turn passes back to Red. */
+  const halfCaptured = () =>
+    play(
+      setup("turns"),
+      { type: "move", from: [1, 1], to: [2, 1], now: 0 },
+      { type: "capture", at: [2, 1], now: 0 },
+      { type: "endTurn" },
+      { type: "endTurn" },
+    );
+
+  it("makes a capture straight after a move free", () => {
+    const state = play(
+      setup("realtime"),
+      { type: "move", from: [1, 1], to: [2, 1], now: 0 },
+      { type: "capture", at: [2, 1], now: 0 },
+    );
+    const capturer = state.grid[1][2].unit;
+    if (!capturer) throw new Error("The unit did not move onto the city");
+    expect(state.actionPoints.Red).toBe(STARTING_AP - 1);
+    expect(cityAt(state).captureProgress).toBe(capturePoints(capturer));
+  });
+
+  it("takes the city once the capture points reach the threshold", () => {
+    const state = halfCaptured();
+    const capturer = state.grid[1][2].unit;
+    if (!capturer) throw new Error("No capturer on the city");
+    // A full-health infantry needs two captures
+    expect(2 * capturePoints(capturer)).toBe(CAPTURE_THRESHOLD);
+    expect(cityAt(state)).toMatchObject({ owner: null, captureProgress: capturePoints(capturer) });
+
+    const taken = play(state, { type: "capture", at: [2, 1], now: 0 });
+    expect(cityAt(taken)).toMatchObject({ owner: "Red", captureProgress: 0 });
+    expect(taken.resources.Red).toBe(state.resources.Red + CAPTURE_REWARD);
+  });
+
+  it("resets the progress when the capturer leaves", () => {
+    const state = play(halfCaptured(), { type: "move", from: [2, 1], to: [2, 2], now: 0 });
+    expect(cityAt(state).captureProgress).toBe(0);
+  });
+
+  it("resets the progress when the capturer dies", () => {
+    const state = halfCaptured();
+    const weakened = structuredClone(state);
+    const capturer = weakened.grid[1][2].unit;
+    if (!capturer) throw new Error("No capturer on the city");
+    capturer.health = 1;
+    const blueTurn = play(weakened, { type: "endTurn" });
+    const after = play(
+      blueTurn,
+      { type: "move", from: [4, 1], to: [3, 1], now: 0 },
+      { type: "attack", from: [3, 1], target: [2, 1], now: 0 },
+    );
+    expect(after.grid[1][2].unit).toBeNull();
+    expect(cityAt(after).captureProgress).toBe(0);
+  });
+});
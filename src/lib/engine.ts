@@ -0,0 +1,555 @@
+/**
+ * engine.ts
+ *
+ * Pure, framework-free game rules. Every state change — from the player UI,
+ * the AI, or a headless simulation — goes through `applyAction`, so combat,
+ * counter-attacks, capture and win checks (via victory.ts) live in exactly one place.
+ *
+ * Time is passed in on each action (`now`) rather than read from the clock,
+ * and randomness comes from the seeded RNG state carried in GameState, which
+ * keeps the reducer deterministic.
+ *
+ * Two modes share the same rules:
+ *   realtime — AP gates every action and acting units go on cooldown
+ *   turns    — sides alternate; each unit acts once per turn, then `endTurn`
+ *              hands over and resolves income, repair and capture resets
+ *
+ * A move uses up the unit, but it may still attack, capture or wait from
+ * where it stopped — at no further AP — as long as its side does nothing
+ * else first (`followUp`).
+ */
+
+import type { City, Player, Tile, Unit, UnitType } from "../types/game";
+import { resolveAttack } from "./combat";
+import {
+  BUILDABLE_UNITS,
+  CAPTURE_REWARD,
+  CAPTURE_THRESHOLD,
+  CITY_INCOME,
+  COOLDOWN_DURATION,
+  GRID_SIZE,
+  MAX_AP,
+  REPAIR_AMOUNT,
+  RULESET_ID,
+  STARTING_AP,
+  UNIT_COSTS,
+  UNIT_TYPES,
+} from "./constants";
+import { calculateMovementRange, cloneGrid } from "./grid";
+import { createRng } from "./rng";
+import { createUnit } from "./units";
+import {
+  DEFAULT_VICTORY,
+  type VictoryConditions,
+  type WinReason,
+  checkVictory,
+  countCities,
+  judgeTimeUp,
+} from "./victory";
+
+export type { WinReason };
+
+// ── State ─────────────────────────────────────────────────────────────────
+
+export type GameMode = "realtime" | "turns";
+
+export interface GameState {
+  grid: Tile[][];
+  resources: Record<Player, number>;
+  actionPoints: Record<Player, number>;
+  /** Unit id → timestamp (ms) at which the unit may act again. */
+  cooldowns: Record<string, number>;
+  winner: Player | null;
+  winReason: WinReason | null;
+  /** Match seed, shown in the HUD so a game can be reproduced. */
+  seed: number;
+  /** Current RNG state (unit IDs for produced units). */
+  rngState: number;
+  mode: GameMode;
+  /** Turn mode only: turn counter (a turn is Red + Blue) and whose move it is. */
+  turn: number;
+  activePlayer: Player;
+  /** Turn mode only: ids of units that have already acted this turn. */
+  acted: string[];
+  /** Each side only sees what its units can see (see vision.ts). */
+  fogOfWar: boolean;
+  /** How this match can be won (picked in the Lobby). */
+  victory: VictoryConditions;
+  /** Id of the balance ruleset the match is played under (see rulesets.ts). */
+  ruleset: string;
+  /**
+   * Per side: the unit that just moved and may still attack, capture or wait
+   * (the move paid for it). Any other action by that side ends the chance.
+   */
+  followUp: Record<Player, string | null>;
+}
+
+export interface GameSetup {
+  seed: number;
+  /** RNG state after map generation; defaults to the seed. */
+  rngState?: number;
+  funds?: number;
+  startingAP?: number;
+  mode?: GameMode;
+  fogOfWar?: boolean;
+  victory?: VictoryConditions;
+  /** Ruleset id; defaults to the one applied (`RULESET_ID`). */
+  ruleset?: string;
+}
+
+export const createGameState = (grid: Tile[][], setup: GameSetup): GameState => ({
+  grid,
+  resources: { Red: setup.funds ?? 1000, Blue: setup.funds ?? 1000 },
+  actionPoints: { Red: setup.startingAP ?? STARTING_AP, Blue: setup.startingAP ?? STARTING_AP },
+  cooldowns: {},
+  winner: null,
+  winReason: null,
+  seed: setup.seed,
+  rngState: setup.rngState ?? setup.seed,
+  mode: setup.mode ?? "realtime",
+  turn: 1,
+  activePlayer: "Red",
+  acted: [],
+  fogOfWar: setup.fogOfWar ?? false,
+  victory: setup.victory ?? DEFAULT_VICTORY,
+  ruleset: setup.ruleset ?? RULESET_ID,
+  followUp: { Red: null, Blue: null },
+});
+
+// ── Actions ───────────────────────────────────────────────────────────────
+
+export type GameAction =
+  | {
+      type: "move";
+      from: [number, number];
+      to: [number, number];
+      now: number;
+    }
+  | {
+      type: "attack";
+      from: [number, number];
+      target: [number, number];
+      now: number;
+    }
+  | {
+      type: "capture";
+      at: [number, number];
+      now: number;
+    }
+  | {
+      type: "produce";
+      player: Player;
+      unitType: UnitType;
+      at: [number, number];
+      now: number;
+    }
+  | {
+      type: "wait";
+      at: [number, number];
+      now: number;
+    }
+  | {
+      type: "regenAP";
+    }
+  | {
+      /** Real-time city income tick (turn mode pays at turn start instead). */
+      type: "income";
+    }
+  | {
+      type: "endTurn";
+      /** The turn timer ran out (informational — the handover is the same). */
+      timedOut?: boolean;
+    }
+  | {
+      /** Match clock ran out: decide the winner on cities, then unit value. */
+      type: "timeUp";
+    };
+
+/** What actually happened — used for status text, sounds and animations. */
+export type ActionOutcome =
+  | {
+      type: "move";
+      unit: Unit;
+      from: [number, number];
+      to: [number, number];
+    }
+  | {
+      type: "attack";
+      attacker: Unit;
+      defender: Unit;
+      damage: number;
+      counterDamage: number | null;
+      defenderDestroyed: boolean;
+      attackerDestroyed: boolean;
+    }
+  | {
+      type: "capture";
+      unit: Unit;
+      progress: number;
+      captured: boolean;
+      /** The city taken was a Headquarters. */
+      hq: boolean;
+    }
+  | {
+      type: "produce";
+      unit: Unit;
+      cost: number;
+    }
+  | {
+      type: "wait";
+      unit: Unit;
+    }
+  | {
+      type: "regenAP";
+    }
+  | {
+      type: "income";
+      amounts: Record<Player, number>;
+    }
+  | {
+      type: "endTurn";
+      /** Side whose turn starts now. */
+      player: Player;
+      turn: number;
+      income: number;
+      repaired: number;
+    }
+  | {
+      type: "timeUp";
+      winner: Player;
+      cities: Record<Player, number>;
+      unitValue: Record<Player, number>;
+      score: Record<Player, number>;
+    };
+
+export interface ActionResult {
+  state: GameState;
+  /** Null when the action was rejected; `error` then says why. */
+  outcome: ActionOutcome | null;
+  error?: string;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────
+
+const reject = (state: GameState, error: string): ActionResult => ({ state, outcome: null, error });
+
+const inBounds = ([x, y]: [number, number]) => x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE;
+
+export const isOnCooldown = (state: GameState, unitId: string, now: number): boolean => {
+  const cd = state.cooldowns[unitId];
+  return cd !== undefined && now < cd;
+};
+
+/** Whether `player` may act at all right now: AP left (realtime) or it's their turn. */
+export const canPlayerAct = (state: GameState, player: Player): boolean =>
+  state.mode === "turns" ? state.activePlayer === player : state.actionPoints[player] > 0;
+
+/** Whether this unit is free to act: off cooldown (realtime) or not yet used this turn. */
+export const isUnitReady = (state: GameState, unit: Unit, now: number): boolean =>
+  state.mode === "turns"
+    ? state.activePlayer === unit.player && !state.acted.includes(unit.id)
+    : !isOnCooldown(state, unit.id, now);
+
+/** Funds `player` earns per income tick / turn from the cities it owns. */
+export const cityIncome = (grid: Tile[][], player: Player): number => countCities(grid, player) * CITY_INCOME;
+
+/** AP after `player` pays for an action (free in turn mode). */
+const payAP = (state: GameState, player: Player): Record<Player, number> =>
+  state.mode === "turns" ? state.actionPoints : { ...state.actionPoints, [player]: state.actionPoints[player] - 1 };
+
+/** Mark a unit as done: cooldown in realtime, "acted this turn" in turn mode. */
+const exhaust = (state: GameState, unitId: string, now: number): Pick<GameState, "cooldowns" | "acted"> =>
+  state.mode === "turns"
+    ? { cooldowns: state.cooldowns, acted: [...state.acted, unitId] }
+    : { cooldowns: { ...state.cooldowns, [unitId]: now + COOLDOWN_DURATION }, acted: state.acted };
+
+/**
+ * Start `player`'s turn: city income, repair of units standing on their own
+ * cities, and reset of capture progress on cities nobody is capturing anymore.
+ */
+const startTurn = (state: GameState, player: Player): ActionResult => {
+  const grid = cloneGrid(state.grid);
+  const income = cityIncome(state.grid, player);
+  let repaired = 0;
+  for (const row of grid) {
+    for (const tile of row) {
+      if (!tile.terrain.isCity) continue;
+      const city = tile.terrain as City;
+      const unit = tile.unit;
+      if (city.owner === player && unit?.player === player) {
+        const maxHealth = UNIT_TYPES[unit.type].health;
+        if (unit.health < maxHealth) {
+          tile.unit = { ...unit, health: Math.min(maxHealth, unit.health + REPAIR_AMOUNT) };
+          repaired++;
+        }
+      }
+      const stillCapturing = unit?.type === "Infantry" && unit.player !== city.owner;
+      if (city.captureProgress > 0 && !stillCapturing) city.captureProgress = 0;
+    }
+  }
+  const turn = player === "Red" ? state.turn + 1 : state.turn;
+  return {
+    state: {
+      ...state,
+      grid,
+      resources: { ...state.resources, [player]: state.resources[player] + income },
+      activePlayer: player,
+      turn,
+      acted: [],
+      followUp: { Red: null, Blue: null },
+    },
+    outcome: { type: "endTurn", player, turn, income, repaired },
+  };
+};
+
+/**
+ * Capture points a unit takes off a city per capture action — its displayed
+ * hp (1–10), Advance Wars style, so a battered infantry needs more turns.
+ */
+export const capturePoints = (unit: Unit): number => Math.max(1, Math.ceil(unit.health / 10));
+
+/** Drop the capture progress on `at` once its capturer has left or died. */
+const abandonCapture = (grid: Tile[][], [x, y]: [number, number]) => {
+  const terrain = grid[y][x].terrain;
+  if (terrain.isCity && (terrain as City).captureProgress > 0) (terrain as City).captureProgress = 0;
+};
+
+/** Winner fields after an action that may have ended the match. */
+const decideWinner = (grid: Tile[][], conditions: VictoryConditions): Pick<GameState, "winner" | "winReason"> => {
+  const result = checkVictory(grid, conditions);
+  return { winner: result?.winner ?? null, winReason: result?.winReason ?? null };
+};
+
+/** Whether `unit` is the one its side just moved and may still act with. */
+export const isFollowUp = (state: GameState, unit: Unit): boolean => state.followUp[unit.player] === unit.id;
+
+/** `player` acted, so whatever unit it moved last can no longer follow up. */
+const endFollowUp = (state: GameState, player: Player): Record<Player, string | null> =>
+  state.followUp[player] === null ? state.followUp : { ...state.followUp, [player]: null };
+
+/**
+ * Find the unit at `pos` and verify its side can act right now. With
+ * `followUp`, the unit that just moved passes even though the move used it up.
+ */
+const readyUnit = (state: GameState, pos: [number, number], now: number, followUp = false): Unit | string => {
+  if (!inBounds(pos)) return "Out of bounds";
+  const unit = state.grid[pos[1]][pos[0]].unit;
+  if (!unit) return "No unit there";
+  if (state.mode === "turns" && unit.player !== state.activePlayer) return `It's ${state.activePlayer}'s turn`;
+  if (followUp && isFollowUp(state, unit)) return unit;
+  if (!isUnitReady(state, unit, now))
+    return state.mode === "turns" ? "Unit already acted this turn" : "Unit is on cooldown";
+  return unit;
+};
+
+// ── Reducer ───────────────────────────────────────────────────────────────
+
+export const applyAction = (state: GameState, action: GameAction): ActionResult => {
+  if (action.type === "regenAP") {
+    if (state.mode === "turns") return reject(state, "No AP in turn mode");
+    return {
+      state: {
+        ...state,
+        actionPoints: {
+          Red: Math.min(MAX_AP, state.actionPoints.Red + 1),
+          Blue: Math.min(MAX_AP, state.actionPoints.Blue + 1),
+        },
+      },
+      outcome: { type: "regenAP" },
+    };
+  }
+
+  if (state.winner) return reject(state, "Game over");
+
+  switch (action.type) {
+    case "income": {
+      if (state.mode === "turns") return reject(state, "Income is paid at turn start in turn mode");
+      const amounts = { Red: cityIncome(state.grid, "Red"), Blue: cityIncome(state.grid, "Blue") };
+      return {
+        state: {
+          ...state,
+          resources: { Red: state.resources.Red + amounts.Red, Blue: state.resources.Blue + amounts.Blue },
+        },
+        outcome: { type: "income", amounts },
+      };
+    }
+
+    case "timeUp": {
+      const result = judgeTimeUp(state.grid, state.victory);
+      return {
+        state: { ...state, winner: result.winner, winReason: "timeout" },
+        outcome: { type: "timeUp", ...result },
+      };
+    }
+
+    case "endTurn": {
+      if (state.mode !== "turns") return reject(state, "No turns in real-time mode");
+      return startTurn(state, state.activePlayer === "Red" ? "Blue" : "Red");
+    }
+
+    case "move": {
+      const unit = readyUnit(state, action.from, action.now);
+      if (typeof unit === "string") return reject(state, unit);
+      if (!canPlayerAct(state, unit.player)) return reject(state, "No AP!");
+      const [fx, fy] = action.from;
+      const [tx, ty] = action.to;
+      if (!inBounds(action.to) || state.grid[ty][tx].unit) return reject(state, "Destination is blocked");
+      if (!calculateMovementRange(unit, state.grid).some(([mx, my]) => mx === tx && my === ty)) {
+        return reject(state, "Out of movement range");
+      }
+
+      const grid = cloneGrid(state.grid);
+      grid[fy][fx].unit = null;
+
+      // Leaving a city mid-capture throws the progress away
+      abandonCapture(grid, action.from);
+
+      const moved: Unit = { ...unit, position: [tx, ty] };
+      grid[ty][tx].unit = moved;
+
+      return {
+        state: {
+          ...state,
+          grid,
+          actionPoints: payAP(state, unit.player),
+          ...exhaust(state, unit.id, action.now),
+          followUp: { ...state.followUp, [unit.player]: moved.id },
+        },
+        outcome: { type: "move", unit: moved, from: action.from, to: action.to },
+      };
+    }
+
+    case "attack": {
+      const attacker = readyUnit(state, action.from, action.now, true);
+      if (typeof attacker === "string") return reject(state, attacker);
+      // The move that brought it here paid for the attack
+      const followUp = isFollowUp(state, attacker);
+      if (!followUp && !canPlayerAct(state, attacker.player)) return reject(state, "No AP to attack!");
+      if (!inBounds(action.target)) return reject(state, "Out of bounds");
+      const [ax, ay] = action.from;
+      const [dx, dy] = action.target;
+      const defender = state.grid[dy][dx].unit;
+      if (!defender || defender.player === attacker.player) return reject(state, "No enemy there");
+      if (Math.abs(dx - ax) + Math.abs(dy - ay) > attacker.attackRange) return reject(state, "Target out of range");
+
+      const grid = cloneGrid(state.grid);
+      const result = resolveAttack(attacker, grid[ay][ax], defender, grid[dy][dx]);
+      const defenderDestroyed = result.defenderHealth <= 0;
+      const attackerDestroyed = result.attackerHealth <= 0;
+      grid[dy][dx].unit = defenderDestroyed ? null : { ...defender, health: result.defenderHealth };
+      grid[ay][ax].unit = attackerDestroyed ? null : { ...attacker, health: result.attackerHealth };
+      // So does dying on it
+      if (defenderDestroyed) abandonCapture(grid, action.target);
+      if (attackerDestroyed) abandonCapture(grid, action.from);
+
+      return {
+        state: {
+          ...state,
+          grid,
+          actionPoints: followUp ? state.actionPoints : payAP(state, attacker.player),
+          ...(followUp ? {} : exhaust(state, attacker.id, action.now)),
+          followUp: endFollowUp(state, attacker.player),
+          ...decideWinner(grid, state.victory),
+        },
+        outcome: {
+          type: "attack",
+          attacker,
+          defender,
+          damage: result.damage,
+          counterDamage: result.counterDamage,
+          defenderDestroyed,
+          attackerDestroyed,
+        },
+      };
+    }
+
+    case "capture": {
+      const unit = readyUnit(state, action.at, action.now, true);
+      if (typeof unit === "string") return reject(state, unit);
+      // Like an attack, the move that brought it here paid for the capture
+      const followUp = isFollowUp(state, unit);
+      if (!followUp && !canPlayerAct(state, unit.player))
+        return reject(state, "No AP to capture! Wait for regeneration");
+      const [x, y] = action.at;
+      const terrain = state.grid[y][x].terrain;
+      if (unit.type !== "Infantry" || !terrain.isCity || (terrain as City).owner === unit.player) {
+        return reject(state, "Nothing to capture here");
+      }
+
+      const grid = cloneGrid(state.grid);
+      const city = grid[y][x].terrain as City;
+
+      // Progress on a city always belongs to the unit standing on it (it resets
+      // when that unit leaves or dies), so keep adding to it
+      city.captureProgress += capturePoints(unit);
+      const captured = city.captureProgress >= CAPTURE_THRESHOLD;
+      const progress = city.captureProgress;
+      if (captured) {
+        city.owner = unit.player;
+        city.captureProgress = 0;
+      }
+
+      return {
+        state: {
+          ...state,
+          grid,
+          resources: captured
+            ? { ...state.resources, [unit.player]: state.resources[unit.player] + CAPTURE_REWARD }
+            : state.resources,
+          actionPoints: followUp ? state.actionPoints : payAP(state, unit.player),
+          ...(followUp ? {} : exhaust(state, unit.id, action.now)),
+          followUp: endFollowUp(state, unit.player),
+          ...(captured ? decideWinner(grid, state.victory) : {}),
+        },
+        outcome: { type: "capture", unit, progress, captured, hq: captured && !!city.hq },
+      };
+    }
+
+    case "produce": {
+      const { player, unitType, at } = action;
+      const cost = UNIT_COSTS[unitType];
+      if (!inBounds(at)) return reject(state, "Out of bounds");
+      if (!BUILDABLE_UNITS.includes(unitType)) return reject(state, `${unitType} can't be built under these rules`);
+      const [x, y] = at;
+      const tile = state.grid[y][x];
+      if (!tile.terrain.isCity || (tile.terrain as City).owner !== player || tile.unit) {
+        return reject(state, "Not an available factory");
+      }
+      if (state.resources[player] < cost) return reject(state, `Not enough funds! Need $${cost}`);
+      if (state.mode === "turns" && state.activePlayer !== player)
+        return reject(state, `It's ${state.activePlayer}'s turn`);
+      if (!canPlayerAct(state, player)) return reject(state, "No AP to produce unit!");
+
+      const grid = cloneGrid(state.grid);
+      const rng = createRng(state.rngState);
+      const unit = createUnit(unitType, [x, y], player, rng);
+      grid[y][x].unit = unit;
+
+      return {
+        state: {
+          ...state,
+          grid,
+          resources: { ...state.resources, [player]: state.resources[player] - cost },
+          actionPoints: payAP(state, player),
+          ...exhaust(state, unit.id, action.now),
+          followUp: endFollowUp(state, player),
+          rngState: rng.state(),
+        },
+        outcome: { type: "produce", unit, cost },
+      };
+    }
+
+    case "wait": {
+      const unit = readyUnit(state, action.at, action.now, true);
+      if (typeof unit === "string") return reject(state, unit);
+      return {
+        state: {
+          ...state,
+          ...(isFollowUp(state, unit) ? {} : exhaust(state, unit.id, action.now)),
+          followUp: endFollowUp(state, unit.player),
+        },
+        outcome: { type: "wait", unit },
+      };
+    }
+  }
+};
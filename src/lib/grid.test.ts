@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Player, TerrainType, Tile, UnitType } from "../types/game";
+import { GRID_SIZE, TERRAIN_TYPES, UNIT_TYPES, setGridSize } from "./constants";
+import { calculateMovementRange, findPath, movementCost } from "./grid";
+import { createRng } from "./rng";
+import { createUnit } from "./units";
+
+const rng = createRng(1);
+
+/** A 10×10 board of `fill`; `paint` overrides single tiles. */
+const board = (fill: TerrainType = "Plain", paint: [number, number, TerrainType][] = []): Tile[][] => {
+  const grid: Tile[][] = Array.from({ length: GRID_SIZE }, (_, y) =>
+    Array.from({ length: GRID_SIZE }, (_, x) => ({
+      position: [x, y],
+      terrain: { ...TERRAIN_TYPES[fill] },
+      unit: null,
+    })),
+  );
+  for (const [x, y, type] of paint) grid[y][x].terrain = { ...TERRAIN_TYPES[type] };
+  return grid;
+};
+
+const place = (grid: Tile[][], type: UnitType, [x, y]: [number, number], player: Player = "Red") => {
+  const unit = createUnit(type, [x, y], player, rng);
+  grid[y][x].unit = unit;
+  return unit;
+};
+
+const reaches = (range: [number, number][], [x, y]: [number, number]) => range.some(([rx, ry]) => rx === x && ry === y);
+
+/** Every tile of column `x` painted as `type`. */
+const column = (x: number, type: TerrainType): [number, number, TerrainType][] =>
+  Array.from({ length: GRID_SIZE }, (_, y) => [x, y, type]);
+
+beforeEach(() => setGridSize(10));
+
+describe("movement classes", () => {
+  it("give each unit type its own terrain costs", () => {
+    const at = (type: UnitType, terrain: TerrainType) =>
+      movementCost(createUnit(type, [0, 0], "Red", rng), TERRAIN_TYPES[terrain]);
+    expect(at("Infantry", "Mountain")).toBe(2);
+    expect(at("Tank", "Mountain")).toBeNull();
+    expect(at("Artillery", "Water")).toBeNull();
+    expect(at("Chopper", "Water")).toBe(1);
+    expect(at("Tank", "Road")).toBeLessThan(at("Tank", "Plain") ?? 0);
+  });
+
+  it("let roads stretch a move and forests shorten it", () => {
+    const tank = createUnit("Tank", [0, 0], "Red", rng);
+    const roadRange = calculateMovementRange(tank, board("Road"));
+    const plainRange = calculateMovementRange(tank, board());
+    const forestRange = calculateMovementRange(tank, board("Forest"));
+    expect(reaches(roadRange, [UNIT_TYPES.Tank.moveRange + 1, 0])).toBe(true);
+    expect(reaches(plainRange, [UNIT_TYPES.Tank.moveRange + 1, 0])).toBe(false);
+    expect(forestRange.length).toBeLessThan(plainRange.length);
+  });
+
+  it("keep ground units off water and let aircraft fly over it", () => {
+    const grid = board("Plain", column(1, "Water"));
+    const infantry = place(grid, "Infantry", [0, 0]);
+    expect(calculateMovementRange(infantry, grid).every(([x]) => x === 0)).toBe(true);
+
+    const chopper = place(grid, "Chopper", [0, 5]);
+    expect(reaches(calculateMovementRange(chopper, grid), [2, 5])).toBe(true);
+  });
+
+  it("pass through friendly units but not enemies, and never stop on either", () => {
+    const grid = board();
+    const infantry = place(grid, "Infantry", [0, 0]);
+    place(grid, "Tank", [1, 0]);
+    const ownRange = calculateMovementRange(infantry, grid);
+    expect(reaches(ownRange, [1, 0])).toBe(false);
+    expect(reaches(ownRange, [2, 0])).toBe(true);
+
+    grid[0][1].unit = null;
+    place(grid, "Tank", [1, 0], "Blue");
+    place(grid, "Tank", [0, 1], "Blue");
+    expect(calculateMovementRange(infantry, grid)).toEqual([]);
+  });
+});
+
+describe("findPath", () => {
+  it("takes the road around a forest", () => {
+    // A forest wall on row 1 with a road detour along row 0
+    const grid = board("Plain", [
+      ...Array.from({ length: 5 }, (_, x): [number, number, TerrainType] => [x, 0, "Road"]),
+      [1, 1, "Forest"],
+      [2, 1, "Forest"],
+      [3, 1, "Forest"],
+    ]);
+    const tank = place(grid, "Tank", [0, 1]);
+    const path = findPath(tank, grid, [4, 1]);
+    expect(path[path.length - 1]).toEqual([4, 1]);
+    expect(path.some(([x, y]) => grid[y][x].terrain.type === "Forest")).toBe(false);
+  });
+
+  it("is empty when the goal cannot be reached", () => {
+    const grid = board("Plain", column(3, "Water"));
+    expect(findPath(place(grid, "Tank", [0, 0]), grid, [5, 0])).toEqual([]);
+  });
+});
@@ -1,5 +1,6 @@
-import type { TerrainType, City, Player, Unit, Tile } from '../types/game';
-import { GRID_SIZE, TERRAIN_TYPES } from './constants';
+import type { TerrainType, City, Player, Unit, Tile, Terrain } from '../types/game';
+import { GRID_SIZE, MOVEMENT_COSTS, TERRAIN_TYPES, UNIT_MOVEMENT_CLASS } from './constants';
+import { randomInt, type Rng } from './rng';
 
 export const getTerrainColor = (terrain: TerrainType): string => {
   switch (terrain) {
@@ -27,9 +28,10 @@ export const getCityOwnerColor = (city: City): string => {
  *
  * When `terrainOverride` is supplied (real OSM data from realMap.ts) the
  * terrain types come directly from that array and the random painting pass
- * is skipped entirely.  When omitted the original random generation runs.
+ * is skipped entirely.  When omitted the original random generation runs,
+ * driven by `rng` so the same seed always paints the same map.
  */
-export const generateInitialGrid = (terrainOverride?: TerrainType[][]): Tile[][] => {
+export const generateInitialGrid = (rng: Rng, terrainOverride?: TerrainType[][]): Tile[][] => {
   const grid: Tile[][] = [];
 
   for (let y = 0; y < GRID_SIZE; y++) {
@@ -47,36 +49,36 @@ export const generateInitialGrid = (terrainOverride?: TerrainType[][]): Tile[][]
   // Only apply random terrain painting when no real-world data was provided.
   if (!terrainOverride) {
     for (let i = 0; i < 30; i++) {
-      const x = Math.floor(Math.random() * GRID_SIZE);
-      const y = Math.floor(Math.random() * GRID_SIZE);
+      const x = randomInt(rng, GRID_SIZE);
+      const y = randomInt(rng, GRID_SIZE);
       grid[y][x].terrain = TERRAIN_TYPES.Mountain;
     }
     for (let i = 0; i < 40; i++) {
-      const x = Math.floor(Math.random() * GRID_SIZE);
-      const y = Math.floor(Math.random() * GRID_SIZE);
+      const x = randomInt(rng, GRID_SIZE);
+      const y = randomInt(rng, GRID_SIZE);
       grid[y][x].terrain = TERRAIN_TYPES.Forest;
     }
     for (let i = 0; i < 15; i++) {
-      const x = Math.floor(Math.random() * GRID_SIZE);
-      const y = Math.floor(Math.random() * GRID_SIZE);
+      const x = randomInt(rng, GRID_SIZE);
+      const y = randomInt(rng, GRID_SIZE);
       grid[y][x].terrain = TERRAIN_TYPES.City;
     }
     for (let i = 0; i < 3; i++) {
-      const startX = Math.floor(Math.random() * GRID_SIZE);
+      const startX = randomInt(rng, GRID_SIZE);
       let x = startX;
       for (let y = 0; y < GRID_SIZE; y++) {
         grid[y][x].terrain = TERRAIN_TYPES.Road;
-        if (Math.random() > 0.7 && x > 0 && x < GRID_SIZE - 1)
-          x += Math.random() > 0.5 ? 1 : -1;
+        if (rng.next() > 0.7 && x > 0 && x < GRID_SIZE - 1)
+          x += rng.next() > 0.5 ? 1 : -1;
       }
     }
     for (let i = 0; i < 3; i++) {
-      const startY = Math.floor(Math.random() * GRID_SIZE);
+      const startY = randomInt(rng, GRID_SIZE);
       let y = startY;
       for (let x = 0; x < GRID_SIZE; x++) {
         grid[y][x].terrain = TERRAIN_TYPES.Road;
-        if (Math.random() > 0.7 && y > 0 && y < GRID_SIZE - 1)
-          y += Math.random() > 0.5 ? 1 : -1;
+        if (rng.next() > 0.7 && y > 0 && y < GRID_SIZE - 1)
+          y += rng.next() > 0.5 ? 1 : -1;
       }
     }
   }
@@ -84,6 +86,24 @@ export const generateInitialGrid = (terrainOverride?: TerrainType[][]): Tile[][]
   return grid;
 };
 
+/** Deep-copy a grid so callers can mutate tiles, terrain and units freely. */
+export const cloneGrid = (grid: Tile[][]): Tile[][] =>
+  grid.map(row =>
+    row.map(tile => ({
+      ...tile,
+      unit: tile.unit ? { ...tile.unit } : null,
+      terrain: { ...tile.terrain },
+    }))
+  );
+
+/**
+ * Movement points `unit` spends to enter `terrain`, from its movement class's
+ * cost table; null when it can't go there at all. Every movement rule —
+ * ranges, the AI's routes, path previews — goes through here.
+ */
+export const movementCost = (unit: Unit, terrain: Terrain): number | null =>
+  MOVEMENT_COSTS[UNIT_MOVEMENT_CLASS[unit.type]][terrain.type];
+
 export const calculateMovementRange = (unit: Unit, grid: Tile[][]): [number, number][] => {
   const [startX, startY] = unit.position;
   const budget = unit.moveRange;
@@ -104,7 +124,8 @@ export const calculateMovementRange = (unit: Unit, grid: Tile[][]): [number, num
       if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
 
       const tile = grid[ny][nx];
-      const stepCost = unit.type === 'Chopper' ? 1 : tile.terrain.movementCost;
+      const stepCost = movementCost(unit, tile.terrain);
+      if (stepCost === null) continue;
       const newCost = cost + stepCost;
       if (newCost > budget) continue;
 
@@ -129,6 +150,77 @@ export const calculateMovementRange = (unit: Unit, grid: Tile[][]): [number, num
   });
 };
 
+/**
+ * Multi-turn route planning: cost[y][x] is the movement cost for `unit` to
+ * travel from (x, y) to `goal`, ignoring its per-turn budget (Infinity when
+ * unreachable). Uses the same cost tables as calculateMovementRange, so
+ * routes follow roads and go around terrain the unit can't cross. Enemy
+ * units block the way; the goal tile itself may be occupied (e.g. a target)
+ * or impassable (a target on a mountain can still be approached).
+ */
+export const calculatePathCosts = (unit: Unit, grid: Tile[][], goal: [number, number]): number[][] => {
+  const cost = grid.map(row => row.map(() => Number.POSITIVE_INFINITY));
+  const [gx, gy] = goal;
+  cost[gy][gx] = 0;
+  const queue: { x: number; y: number; cost: number }[] = [{ x: gx, y: gy, cost: 0 }];
+
+  // Dijkstra outward from the goal: stepping from a neighbour onto (x, y) costs (x, y)'s terrain
+  while (queue.length > 0) {
+    queue.sort((a, b) => a.cost - b.cost);
+    const next = queue.shift();
+    if (!next || next.cost > cost[next.y][next.x]) continue;
+    const { x, y, cost: c } = next;
+    const enterCost = movementCost(unit, grid[y][x].terrain) ?? (x === gx && y === gy ? 1 : null);
+    if (enterCost === null) continue;
+
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
+      const occupant = grid[ny][nx].unit;
+      if (occupant && occupant.player !== unit.player) continue;
+      const newCost = c + enterCost;
+      if (newCost >= cost[ny][nx]) continue;
+      cost[ny][nx] = newCost;
+      queue.push({ x: nx, y: ny, cost: newCost });
+    }
+  }
+
+  return cost;
+};
+
+/**
+ * Cheapest route for `unit` from where it stands to `to`, excluding the
+ * start tile; empty when `to` can't be reached. Used for the move preview.
+ */
+export const findPath = (unit: Unit, grid: Tile[][], to: [number, number]): [number, number][] => {
+  const cost = calculatePathCosts(unit, grid, to);
+  let [x, y] = unit.position;
+  if (!Number.isFinite(cost[y][x])) return [];
+  const path: [number, number][] = [];
+  while (x !== to[0] || y !== to[1]) {
+    // Step to the neighbour that keeps us on a cheapest route
+    let best: [number, number] | null = null;
+    let bestCost = Number.POSITIVE_INFINITY;
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
+      const enter = movementCost(unit, grid[ny][nx].terrain);
+      if (enter === null) continue;
+      const total = enter + cost[ny][nx];
+      if (total < bestCost) {
+        best = [nx, ny];
+        bestCost = total;
+      }
+    }
+    if (!best) return [];
+    path.push(best);
+    [x, y] = best;
+  }
+  return path;
+};
+
 export const calculateAttackRange = (unit: Unit, grid: Tile[][]): [number, number][] => {
   const [x, y] = unit.position;
   const range = unit.attackRange;
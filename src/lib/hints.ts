@@ -0,0 +1,92 @@
+/**
+ * hints.ts
+ *
+ * Turns an AI decision made for the human side into a board highlight and a
+ * one-line explanation for the Hint button. The decision itself comes from
+ * the regular AI (computeAIAction with `player: 'Red'`), so hints are as good
+ * as the Hard planner.
+ */
+
+import type { AIAction } from "./ai";
+import { resolveAttack } from "./combat";
+import type { GameAction, GameState } from "./engine";
+
+export interface Hint {
+  text: string;
+  /** Tiles to highlight: the unit (or factory), then where it goes and what it hits. */
+  tiles: [number, number][];
+}
+
+const at = ([x, y]: [number, number]) => `(${x},${y})`;
+
+/** Explain an attack from `from` (after an optional move) as seen on `state`. */
+const describeAttack = (
+  state: GameState,
+  from: [number, number],
+  attack: Extract<GameAction, { type: "attack" }>,
+): string => {
+  const grid = state.grid;
+  const [ax, ay] = from;
+  const [tx, ty] = attack.target;
+  const attacker = grid[ay][ax].unit;
+  const defender = grid[ty][tx].unit;
+  if (!attacker || !defender) return `Attack ${at(attack.target)}`;
+  const moved = { ...attacker, position: attack.from };
+  const result = resolveAttack(moved, { ...grid[attack.from[1]][attack.from[0]], unit: moved }, defender, grid[ty][tx]);
+  const hit =
+    result.defenderHealth <= 0
+      ? `can destroy ${defender.type} at ${at(attack.target)}`
+      : `can hit ${defender.type} at ${at(attack.target)} for ${result.damage}`;
+  const counter =
+    result.counterDamage === null
+      ? "with no counter"
+      : result.attackerHealth <= 0
+        ? "but won't survive the counter"
+        : `taking ${result.counterDamage} back`;
+  return `${attacker.type} ${hit} ${counter}`;
+};
+
+/** Highlight and explanation for `action`, or a "nothing to do" hint when it's null. */
+export const describeHint = (state: GameState, action: AIAction | null): Hint => {
+  if (!action) {
+    return {
+      text:
+        state.mode === "turns"
+          ? "Nothing useful left this turn — end your turn"
+          : "Nothing useful right now — wait for AP or cooldowns",
+      tiles: [],
+    };
+  }
+  const unitAt = ([x, y]: [number, number]) => state.grid[y][x].unit?.type ?? "Unit";
+
+  switch (action.type) {
+    case "produce":
+      return {
+        text: `Build ${action.unitType} at ${at(action.at)} — it trades best against what the enemy fields`,
+        tiles: [action.at],
+      };
+    case "attack":
+      return { text: describeAttack(state, action.from, action), tiles: [action.from, action.target] };
+    case "moveAttack":
+      return {
+        text: `Move to ${at(action.move.to)}: ${describeAttack(state, action.move.from, action.attack)}`,
+        tiles: [action.move.from, action.move.to, action.attack.target],
+      };
+    case "capture":
+      return { text: `${unitAt(action.at)} should keep capturing the city at ${at(action.at)}`, tiles: [action.at] };
+    case "moveCapture":
+      return {
+        text: `Move ${unitAt(action.move.from)} onto the city at ${at(action.move.to)} and start capturing`,
+        tiles: [action.move.from, action.move.to],
+      };
+    case "move":
+      return {
+        text: `Advance ${unitAt(action.from)} to ${at(action.to)}`,
+        tiles: [action.from, action.to],
+      };
+    case "wait":
+      return { text: `${unitAt(action.at)} at ${at(action.at)} is best left where it is`, tiles: [action.at] };
+    default:
+      return { text: "End your turn", tiles: [] };
+  }
+};
@@ -0,0 +1,183 @@
+/**
+ * netClient.ts
+ *
+ * Browser side of online play. Local actions are applied straight away as a
+ * prediction and sent as intents; the server's events are applied to the
+ * last confirmed state and any intents still in flight are replayed on top,
+ * so the board never waits on the network but always converges on the
+ * server's match. A missed event triggers a resync.
+ */
+
+import type { Player } from "../types/game";
+import { RULESET_ID, applyRuleset, setGridSize } from "./constants";
+import { type ActionOutcome, type ActionResult, type GameAction, type GameState, applyAction } from "./engine";
+import type { ChatEntry, ClientMessage, EventMessage, JoinMessage, JoinedMessage, ServerMessage } from "./netProtocol";
+import { getRuleset } from "./rulesets";
+
+export interface NetHandlers {
+  onJoined: (message: JoinedMessage) => void;
+  /** A full state from the server (on joining, and after a resync): start over from it. */
+  onSnapshot: (state: GameState, clockRemaining?: number) => void;
+  /** The shown state changed because of an event or a rejected intent. */
+  onState: (state: GameState) => void;
+  /**
+   * Every confirmed event, in order. `own` events were already shown when they
+   * were predicted; `outcome` is null for an opponent action fog of war hides.
+   */
+  onEvent: (event: EventMessage, outcome: ActionOutcome | null, state: GameState, own: boolean) => void;
+  onRejected: (error: string) => void;
+  onPresence: (connected: Record<Player, boolean>) => void;
+  /** The room's chat history on joining, then each new entry. */
+  onChat: (entries: ChatEntry[]) => void;
+  onError: (message: string) => void;
+  /** The socket closed; `reconnect` rejoins the same seat. */
+  onClose: () => void;
+}
+
+export interface NetClient {
+  /** Predict `action` on the shown state and send it; a locally rejected action isn't sent. Null before the first snapshot. */
+  act: (action: GameAction) => ActionResult | null;
+  say: (text: string) => void;
+  reconnect: () => void;
+  close: () => void;
+}
+
+interface Intent {
+  seq: number;
+  action: GameAction;
+}
+
+/** The snapshot's rules become the active ones (module state, see constants.ts). */
+const loadRules = (state: GameState) => {
+  setGridSize(state.grid.length);
+  if (RULESET_ID !== state.ruleset) applyRuleset(getRuleset(state.ruleset));
+};
+
+/** Connect to the server at `url` and join (or create) a room. */
+export const connectMatch = (url: string, join: JoinMessage, handlers: NetHandlers): NetClient => {
+  let socket: WebSocket;
+  let closedByUs = false;
+  let seat: Player | undefined = join.seat;
+  let token: string | undefined = join.token;
+  /** Last state the server confirmed, and the number of events folded into it. */
+  let confirmed: GameState | null = null;
+  let confirmedSeq = 0;
+  /** Intents sent but not yet answered, oldest first. */
+  let pending: Intent[] = [];
+  let shown: GameState | null = null;
+  let nextSeq = 1;
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  /** Rebuild the shown state: confirmed + the intents still in flight. */
+  const predict = () => {
+    if (!confirmed) return;
+    let state = confirmed;
+    pending = pending.filter((intent) => {
+      const result = applyAction(state, intent.action);
+      if (result.outcome) state = result.state;
+      return !!result.outcome;
+    });
+    shown = state;
+  };
+
+  const receive = (message: ServerMessage) => {
+    switch (message.type) {
+      case "joined":
+        seat = message.player;
+        token = message.token;
+        handlers.onJoined(message);
+        return;
+      case "snapshot":
+        loadRules(message.state);
+        confirmed = message.state;
+        confirmedSeq = message.seq;
+        pending = [];
+        shown = confirmed;
+        handlers.onSnapshot(shown, message.clockRemaining);
+        return;
+      case "event": {
+        if (!confirmed) return;
+        if (message.seq <= confirmedSeq) return;
+        if (message.seq !== confirmedSeq + 1) {
+          // Missed something — the snapshot that answers this replaces everything
+          send({ type: "resync" });
+          return;
+        }
+        // Fog of war: our view can't replay what we don't see, so the server sends its result
+        const result = message.state || !message.action ? null : applyAction(confirmed, message.action);
+        const next = message.state ?? (result?.outcome ? result.state : null);
+        if (!next) {
+          send({ type: "resync" });
+          return;
+        }
+        confirmed = next;
+        confirmedSeq = message.seq;
+        const own = message.clientSeq !== undefined && message.player === seat;
+        if (own) pending = pending.filter((intent) => intent.seq !== message.clientSeq);
+        predict();
+        if (!shown) return;
+        handlers.onState(shown);
+        handlers.onEvent(message, message.outcome ?? result?.outcome ?? null, shown, own);
+        return;
+      }
+      case "rejected":
+        pending = pending.filter((intent) => intent.seq !== message.clientSeq);
+        predict();
+        if (shown) handlers.onState(shown);
+        handlers.onRejected(message.error);
+        return;
+      case "presence":
+        handlers.onPresence(message.connected);
+        return;
+      case "chat":
+        handlers.onChat(message.entries);
+        return;
+      case "error":
+        handlers.onError(message.message);
+        return;
+    }
+  };
+
+  const open = (hello: JoinMessage) => {
+    socket = new WebSocket(url);
+    socket.onopen = () => send(hello);
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        receive(JSON.parse(event.data) as ServerMessage);
+      } catch (err) {
+        console.warn("[net] bad message:", err);
+      }
+    };
+    socket.onclose = () => {
+      if (!closedByUs) handlers.onClose();
+    };
+  };
+
+  open(join);
+
+  return {
+    act: (action) => {
+      if (!shown) return null;
+      const result = applyAction(shown, action);
+      if (!result.outcome) return result;
+      const seq = nextSeq++;
+      pending.push({ seq, action });
+      shown = result.state;
+      send({ type: "action", seq, action });
+      return result;
+    },
+    say: (text) => send({ type: "say", text }),
+    reconnect: () => {
+      if (closedByUs || socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) return;
+      open({ type: "join", room: join.room, seat, token });
+    },
+    close: () => {
+      closedByUs = true;
+      send({ type: "leave" });
+      socket.close();
+    },
+  };
+};
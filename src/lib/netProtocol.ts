@@ -0,0 +1,200 @@
+/**
+ * netProtocol.ts
+ *
+ * Messages between the game and the match server (scripts/server.ts) for
+ * online Red vs Blue. A room starts in the Lobby: members see each other,
+ * chat, toggle ready, and the host's settings are pushed to everyone until
+ * the host starts the match.
+ *
+ * In the match, clients never change the state themselves: they send
+ * `action` intents, the server checks them with the same engine
+ * (`applyAction`) and broadcasts every accepted action as a numbered
+ * `event`. The engine is deterministic, so replaying the events on the last
+ * snapshot rebuilds exactly the server's state; a client that misses one
+ * asks for a `resync` and gets a fresh snapshot. Messages travel as JSON.
+ *
+ * Under fog of war a seat never receives what it can't see: snapshots hold
+ * its own view, each event carries the view after it (a fogged board can't
+ * replay the opponent's hidden moves), and hidden actions arrive without
+ * their details.
+ */
+
+import type { Player, TerrainType } from "../types/game";
+import type { ActionOutcome, GameAction, GameMode, GameState } from "./engine";
+import type { VictoryConditions } from "./victory";
+
+/** Everything the host picks for a new room; the server builds the opening board from it. */
+export interface MatchSetup {
+  seed: number;
+  mode: GameMode;
+  fogOfWar: boolean;
+  victory: VictoryConditions;
+  ruleset: string;
+  startingFunds: number;
+  battleLocation: [number, number];
+  mapSize: 10 | 20 | 30;
+  /** Seconds per turn (turn mode) or for the whole match (real-time); 0 = no limit. */
+  turnTimeLimit: number;
+  /** Real-world terrain fetched by the host, or null for a random map. */
+  terrain: TerrainType[][] | null;
+}
+
+/** Room settings every member needs before the first snapshot (map backdrop, clock). */
+export type RoomSettings = Pick<MatchSetup, "battleLocation" | "mapSize" | "turnTimeLimit">;
+
+/** The host's Lobby settings, shown to every member; a null seed is picked at start. */
+export type LobbySettings = Omit<MatchSetup, "seed" | "terrain"> & { seed: number | null };
+
+export interface RoomMember {
+  player: Player;
+  name: string;
+  ready: boolean;
+  connected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  /** 'lobby' until the host starts the match. */
+  phase: "lobby" | "match";
+  /** Seated players, Red (the host) first. */
+  members: RoomMember[];
+  settings: LobbySettings;
+}
+
+export interface ChatEntry {
+  /** Numbered per room, so a line keeps its identity in the chat log. */
+  id: number;
+  /** Sender's name; null for room notices ("Blue joined"). */
+  from: string | null;
+  text: string;
+  at: number;
+}
+
+// ── Client → server ───────────────────────────────────────────────────────
+
+export interface JoinMessage {
+  type: "join";
+  room: string;
+  /** Display name in the room. */
+  name?: string;
+  /** Create the room with these settings (fails if the code is taken); the creator hosts and plays Red. */
+  create?: LobbySettings;
+  /** Reclaim a seat — from the Lobby into the match, or after a dropped connection. */
+  seat?: Player;
+  /** The seat's `token` from `joined`; without it only a free seat can be taken. */
+  token?: string;
+}
+
+export interface ActionMessage {
+  type: "action";
+  /** Client-chosen id, echoed in the resulting `event` or `rejected`. */
+  seq: number;
+  action: GameAction;
+}
+
+/** Host only, in the Lobby: everyone's ready flags reset. */
+export interface SettingsMessage {
+  type: "settings";
+  settings: LobbySettings;
+}
+
+export interface ReadyMessage {
+  type: "ready";
+  ready: boolean;
+}
+
+export interface SayMessage {
+  type: "say";
+  text: string;
+}
+
+/** Host only, once both players are ready. The host's client fetches the terrain. */
+export interface StartMessage {
+  type: "start";
+  setup: MatchSetup;
+}
+
+export type ClientMessage =
+  | JoinMessage
+  | ActionMessage
+  | SettingsMessage
+  | ReadyMessage
+  | SayMessage
+  | StartMessage
+  | { type: "resync" }
+  | { type: "leave" };
+
+// ── Server → client ───────────────────────────────────────────────────────
+
+export interface JoinedMessage {
+  type: "joined";
+  room: string;
+  player: Player;
+  settings: RoomSettings;
+  /** Proves the seat is ours when rejoining (see `JoinMessage.token`). */
+  token: string;
+}
+
+/** The room as it is now; sent on every change to members, ready flags, settings or phase. */
+export interface RoomMessage {
+  type: "room";
+  room: RoomInfo;
+}
+
+/** The room's chat history on joining, then each new entry. */
+export interface ChatMessage {
+  type: "chat";
+  entries: ChatEntry[];
+}
+
+export interface SnapshotMessage {
+  type: "snapshot";
+  /** Under fog of war, only what this seat can see. */
+  state: GameState;
+  /** Number of events already folded into `state`; the next event is `seq + 1`. */
+  seq: number;
+  /** Ms left on the turn/match clock, when the room has a time limit. */
+  clockRemaining?: number;
+}
+
+export interface EventMessage {
+  type: "event";
+  seq: number;
+  /** Who acted; null for the server's clock (AP and income ticks, time limits). */
+  player: Player | null;
+  /** The action as the server applied it (`now` is the server's clock); null when fog of war hides it from this seat. */
+  action: GameAction | null;
+  /** The sender's `ActionMessage.seq`, so it can match the event to its intent. */
+  clientSeq?: number;
+  /** Fog of war only: this seat's view after the event, to take instead of replaying the action. */
+  state?: GameState;
+  /** Fog of war only: what happened, when `action` isn't hidden. */
+  outcome?: ActionOutcome;
+}
+
+export interface RejectedMessage {
+  type: "rejected";
+  clientSeq: number;
+  error: string;
+}
+
+export interface PresenceMessage {
+  type: "presence";
+  /** Which seats currently have a connected player. */
+  connected: Record<Player, boolean>;
+}
+
+export interface ErrorMessage {
+  type: "error";
+  message: string;
+}
+
+export type ServerMessage =
+  | JoinedMessage
+  | RoomMessage
+  | ChatMessage
+  | SnapshotMessage
+  | EventMessage
+  | RejectedMessage
+  | PresenceMessage
+  | ErrorMessage;
@@ -0,0 +1,223 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Player, Tile, Unit } from "../types/game";
+import { applyRuleset } from "./constants";
+import type { GameAction } from "./engine";
+import { calculateMovementRange } from "./grid";
+import type { EventMessage, LobbySettings, RoomMessage, ServerMessage, SnapshotMessage } from "./netProtocol";
+import { type MatchServer, type Outgoing, createMatchServer } from "./netServer";
+import { getRuleset } from "./rulesets";
+
+const lobby = (overrides: Partial<LobbySettings> = {}): LobbySettings => ({
+  mode: "turns",
+  fogOfWar: false,
+  victory: { annihilation: true, hqCapture: true, cityShare: null, scoreAtTimeLimit: false },
+  ruleset: "classic",
+  startingFunds: 10000,
+  battleLocation: [0, 0],
+  mapSize: 10,
+  turnTimeLimit: 0,
+  seed: null,
+  ...overrides,
+});
+
+// Tests may leave other rules loaded, like another room would
+afterEach(() => applyRuleset(getRuleset(undefined)));
+
+/** Seat 'red' (the host) and 'blue' in room X, both ready to start. */
+const openRoom = (settings: LobbySettings) => {
+  const server = createMatchServer();
+  server.handle("red", { type: "join", room: "X", name: "Ann", create: settings }, 0);
+  server.handle("blue", { type: "join", room: "X", name: "Bo" }, 0);
+  server.handle("red", { type: "ready", ready: true }, 0);
+  server.handle("blue", { type: "ready", ready: true }, 0);
+  return server;
+};
+
+/** An open room started on seed 3. */
+const startMatch = (settings: LobbySettings) => {
+  const server = openRoom(settings);
+  server.handle("red", { type: "start", setup: { ...settings, seed: 3, terrain: null } }, 0);
+  return server;
+};
+
+const messagesTo = (out: Outgoing[], connection: string): ServerMessage[] =>
+  out.filter((o) => o.to === connection).map((o) => o.message);
+
+const gridFor = (server: MatchServer, connection: string): Tile[][] =>
+  (messagesTo(server.handle(connection, { type: "resync" }, 0), connection)[0] as SnapshotMessage).state.grid;
+
+const unitsOf = (grid: Tile[][], player: Player): Unit[] =>
+  grid.flat().flatMap((tile) => (tile.unit?.player === player ? [tile.unit] : []));
+
+/** A move for the unit to an empty tile in its range. */
+const moveOf = (grid: Tile[][], unit: Unit) => {
+  const to = calculateMovementRange(unit, grid).find(([x, y]) => !grid[y][x].unit);
+  if (!to) throw new Error("No room to move");
+  return { type: "move", from: unit.position, to, now: 0 } as const;
+};
+
+const firstMove = (grid: Tile[][], player: Player) => moveOf(grid, unitsOf(grid, player)[0]);
+
+const send = (server: MatchServer, connection: string, seq: number, action: GameAction, now = 1) =>
+  messagesTo(server.handle(connection, { type: "action", seq, action }, now), connection)[0];
+
+describe("lobby", () => {
+  const chatLines = (out: Outgoing[], connection: string) =>
+    messagesTo(out, connection).flatMap((message) => (message.type === "chat" ? message.entries : []));
+
+  it("refuses a setup that differs from the one both players readied on", () => {
+    const settings = lobby();
+    const server = openRoom(settings);
+    const out = server.handle(
+      "red",
+      { type: "start", setup: { ...settings, fogOfWar: true, seed: 3, terrain: null } },
+      0,
+    );
+    expect(messagesTo(out, "red")).toEqual([
+      { type: "error", message: "The match must use the settings both players readied on" },
+    ]);
+  });
+
+  it("needs both players ready again after the host changes the settings", () => {
+    const server = openRoom(lobby());
+    server.handle("red", { type: "settings", settings: lobby({ mapSize: 20 }) }, 0);
+    const setup = { ...lobby({ mapSize: 20 }), seed: 3, terrain: null };
+    expect(messagesTo(server.handle("red", { type: "start", setup }, 0), "red")).toEqual([
+      { type: "error", message: "Both players must be here and ready" },
+    ]);
+  });
+
+  it("relays chat to the room, trimmed, numbered and filtered", () => {
+    const server = openRoom(lobby());
+    const first = chatLines(server.handle("blue", { type: "say", text: "  good luck  " }, 1), "red");
+    const second = chatLines(server.handle("red", { type: "say", text: "you sh1t" }, 2), "blue");
+    expect(first).toEqual([{ id: expect.any(Number), from: "Bo", text: "good luck", at: 1 }]);
+    expect(second).toEqual([{ id: first[0].id + 1, from: "Ann", text: "you s***", at: 2 }]);
+    expect(server.handle("red", { type: "say", text: "   " }, 3)).toEqual([]);
+  });
+
+  it("filters names too", () => {
+    const server = createMatchServer();
+    const out = server.handle("red", { type: "join", room: "Y", name: "b1tch", create: lobby() }, 0);
+    const info = messagesTo(out, "red").find((message): message is RoomMessage => message.type === "room");
+    expect(info?.room.members[0].name).toBe("b****");
+  });
+
+  it("rate-limits each connection’s chat", () => {
+    const server = openRoom(lobby());
+    for (let i = 0; i < 5; i++)
+      expect(chatLines(server.handle("blue", { type: "say", text: `hi ${i}` }, i), "blue")).toHaveLength(1);
+    expect(server.handle("blue", { type: "say", text: "hi again" }, 5)).toEqual([
+      { to: "blue", message: { type: "error", message: "Slow down — too many messages" } },
+    ]);
+    // The other player isn't held back, and the limit lifts once the window passes
+    expect(chatLines(server.handle("red", { type: "say", text: "calm down" }, 5), "red")).toHaveLength(1);
+    expect(chatLines(server.handle("blue", { type: "say", text: "sorry" }, 10_001), "blue")).toHaveLength(1);
+  });
+});
+
+describe("messages off the wire", () => {
+  it("answers malformed messages with an error instead of throwing", () => {
+    const server = startMatch(lobby());
+    const malformed = [
+      null,
+      42,
+      [],
+      { type: "join" },
+      { type: "join", room: "X", create: "yes" },
+      { type: "action", seq: 1, action: null },
+      { type: "action", action: { type: "endTurn" } },
+      { type: "ready", ready: "yes" },
+      { type: "ready" },
+      { type: "say", text: 7 },
+      { type: "start" },
+      { type: "dance" },
+    ];
+    for (const message of malformed)
+      expect(server.handle("red", message, 1)).toEqual([
+        { to: "red", message: { type: "error", message: "Malformed message" } },
+      ]);
+  });
+});
+
+describe("action intents", () => {
+  it("refuses a second move from the same unit, whatever extra fields the client adds", () => {
+    const server = startMatch(lobby());
+    const move = firstMove(gridFor(server, "red"), "Red");
+    expect(send(server, "red", 1, move)).toMatchObject({ type: "event", clientSeq: 1 });
+
+    const grid = gridFor(server, "red");
+    const [x, y] = move.to;
+    const moved = grid[y][x].unit;
+    if (!moved) throw new Error("The unit did not move");
+    const again = { ...moveOf(grid, moved), keepReady: true } as GameAction;
+    expect(send(server, "red", 2, again)).toEqual({
+      type: "rejected",
+      clientSeq: 2,
+      error: "Unit already acted this turn",
+    });
+  });
+
+  it("refuses the server's clock actions and the other side's units", () => {
+    const server = startMatch(lobby({ mode: "realtime" }));
+    expect(send(server, "red", 1, { type: "regenAP" })).toEqual({
+      type: "rejected",
+      clientSeq: 1,
+      error: "Not an action a player can send",
+    });
+    expect(send(server, "red", 2, firstMove(gridFor(server, "blue"), "Blue"))).toEqual({
+      type: "rejected",
+      clientSeq: 2,
+      error: `That's not yours to command`,
+    });
+  });
+});
+
+describe("fog of war", () => {
+  it("sends each seat only its own view and hides the other side's moves", () => {
+    const server = startMatch(lobby({ fogOfWar: true, mapSize: 20 }));
+    const red = gridFor(server, "red");
+    expect(unitsOf(red, "Blue")).toEqual([]);
+    expect(unitsOf(gridFor(server, "blue"), "Red")).toEqual([]);
+
+    const out = server.handle("red", { type: "action", seq: 1, action: firstMove(red, "Red") }, 1);
+    const [toRed] = messagesTo(out, "red") as EventMessage[];
+    const [toBlue] = messagesTo(out, "blue") as EventMessage[];
+    expect(toRed.action?.type).toBe("move");
+    expect(toBlue.action).toBeNull();
+    expect(unitsOf(toBlue.state?.grid ?? [], "Red")).toEqual([]);
+  });
+
+  it("leaves hidden units out of the cooldown, acted and follow-up lists", () => {
+    const server = startMatch(lobby({ mode: "realtime", fogOfWar: true, mapSize: 20 }));
+    const move = firstMove(gridFor(server, "blue"), "Blue");
+    expect(send(server, "blue", 1, move, 1)).toMatchObject({ type: "event", clientSeq: 1 });
+
+    const stateFor = (connection: string) =>
+      (messagesTo(server.handle(connection, { type: "resync" }, 2), connection)[0] as SnapshotMessage).state;
+    const blue = stateFor("blue");
+    const [x, y] = move.to;
+    const mover = blue.grid[y][x].unit?.id ?? "";
+    expect(blue.followUp.Blue).toBe(mover);
+    expect(Object.keys(blue.cooldowns)).toEqual([mover]);
+
+    const red = stateFor("red");
+    expect(unitsOf(red.grid, "Blue")).toEqual([]);
+    expect(red.followUp.Blue).toBeNull();
+    expect(red.cooldowns).toEqual({});
+  });
+
+  it("builds a snapshot's view with its own match's rules", () => {
+    const server = startMatch(lobby({ fogOfWar: true, mapSize: 20 }));
+    const before = gridFor(server, "red");
+
+    // Another room's rules left loaded: every unit sees the whole map
+    const classic = getRuleset("classic");
+    const wide = Object.fromEntries(
+      Object.entries(classic.units).map(([type, unit]) => [type, { ...unit, vision: 40 }]),
+    );
+    applyRuleset({ ...classic, id: "wide", units: wide as typeof classic.units });
+
+    expect(gridFor(server, "red")).toEqual(before);
+  });
+});
@@ -0,0 +1,614 @@
+/**
+ * netServer.ts
+ *
+ * The authoritative side of online play, free of any socket library: rooms,
+ * seats, lobby chat and the match clock. scripts/server.ts feeds it parsed
+ * messages per connection and delivers what it returns, so a local instance
+ * (or a test calling `handle` directly) runs exactly the rules players get.
+ *
+ * A room opens in the Lobby phase — members, ready flags, the host's
+ * settings and chat — and becomes a match when the host starts it. Every
+ * intent then goes through the same `applyAction` as the client, stamped
+ * with the server's clock and checked against the sender's seat — a client
+ * can only move its own units, and only the server ticks AP, income and
+ * time limits.
+ */
+
+import type { Player } from "../types/game";
+import { RULESET_ID, TERRAIN_TYPE_LIST, applyRuleset, setGridSize } from "./constants";
+import { type ActionOutcome, type GameAction, type GameState, applyAction, createGameState } from "./engine";
+import type {
+  ChatEntry,
+  ClientMessage,
+  EventMessage,
+  JoinMessage,
+  LobbySettings,
+  MatchSetup,
+  RoomInfo,
+  ServerMessage,
+} from "./netProtocol";
+import { filterProfanity } from "./profanity";
+import { createRng } from "./rng";
+import { RULESETS, type Ruleset } from "./rulesets";
+import { createMatchGrid } from "./setup";
+import { CITY_SHARE_OPTIONS } from "./victory";
+import { type Visibility, computeVisibility, viewGridFor } from "./vision";
+
+/** A message for one connection. */
+export interface Outgoing {
+  to: string;
+  message: ServerMessage;
+}
+
+export interface MatchServer {
+  /** Handle one message from `connection` as parsed off the wire (checked here); returns what to send where. */
+  handle: (connection: string, message: unknown, now: number) => Outgoing[];
+  /** The connection closed: free its seat (the room waits for a reconnect). */
+  disconnect: (connection: string, now: number) => Outgoing[];
+  /** Run every room's clock up to `now`; call about once a second. */
+  tick: (now: number) => Outgoing[];
+  /** Open rooms, for logging. */
+  roomCount: () => number;
+}
+
+const SIDES: Player[] = ["Red", "Blue"];
+const ROOM_IDLE_TTL = 5 * 60_000; // an empty room is kept this long for reconnects
+const CHAT_HISTORY = 200; // entries kept per room
+const CHAT_MAX_LENGTH = 200;
+const CHAT_RATE_LIMIT = 5; // messages per CHAT_RATE_WINDOW per connection
+const CHAT_RATE_WINDOW = 10_000;
+const NAME_MAX_LENGTH = 20;
+const MAX_STARTING_FUNDS = 100_000;
+const MAX_TIME_LIMIT = 3600; // seconds
+
+interface Match {
+  setup: MatchSetup;
+  ruleset: Ruleset;
+  state: GameState;
+  /** Events applied so far. */
+  seq: number;
+  /** Real-time: when the next AP and income ticks are due. */
+  nextRegen: number;
+  nextIncome: number;
+  /** When the turn (turn mode) or match (real-time) clock runs out; null = no limit. */
+  deadline: number | null;
+}
+
+interface Room {
+  code: string;
+  settings: LobbySettings;
+  /** Seat → connection id, null while nobody holds it. */
+  seats: Record<Player, string | null>;
+  /** Seat → its player's name and rejoin token; null while the seat is free. */
+  names: Record<Player, string | null>;
+  tokens: Record<Player, string | null>;
+  ready: Record<Player, boolean>;
+  chat: ChatEntry[];
+  /** Id of the next chat line. */
+  chatSeq: number;
+  /** Null while the room is still in the Lobby. */
+  match: Match | null;
+  /** When the last player left; null while anyone is connected. */
+  emptySince: number | null;
+}
+
+/** Side an action is taken for; null for clock actions, which only the server sends. */
+const actorOf = (state: GameState, action: GameAction): Player | null => {
+  switch (action.type) {
+    case "move":
+    case "attack":
+      return state.grid[action.from[1]]?.[action.from[0]]?.unit?.player ?? null;
+    case "capture":
+    case "wait":
+      return state.grid[action.at[1]]?.[action.at[0]]?.unit?.player ?? null;
+    case "produce":
+      return action.player;
+    case "endTurn":
+      return state.activePlayer;
+    default:
+      return null;
+  }
+};
+
+/** A grid position from the wire, or null if it isn't one. */
+const position = (value: unknown): [number, number] | null =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isInteger) ? [value[0], value[1]] : null;
+
+/**
+ * A client intent rebuilt from only the fields the engine reads, stamped with
+ * the server's clock — nothing else the client sent reaches `applyAction`.
+ * Null for anything malformed and for clock actions, which only the server sends.
+ */
+const toIntent = (action: GameAction, now: number): GameAction | null => {
+  switch (action.type) {
+    case "move": {
+      const from = position(action.from);
+      const to = position(action.to);
+      return from && to ? { type: "move", from, to, now } : null;
+    }
+    case "attack": {
+      const from = position(action.from);
+      const target = position(action.target);
+      return from && target ? { type: "attack", from, target, now } : null;
+    }
+    case "capture":
+    case "wait": {
+      const at = position(action.at);
+      return at ? { type: action.type, at, now } : null;
+    }
+    case "produce": {
+      const at = position(action.at);
+      return at ? { type: "produce", player: action.player, unitType: action.unitType, at, now } : null;
+    }
+    case "endTurn":
+      return { type: "endTurn" };
+    default:
+      return null;
+  }
+};
+
+/**
+ * The match as `seat` may see it: under fog of war, without the enemy units it
+ * can't see — on the board, or by id in the cooldown, acted and follow-up lists.
+ */
+const viewFor = (state: GameState, seat: Player): GameState => {
+  if (!state.fogOfWar) return state;
+  const grid = viewGridFor(state, seat);
+  const seen = new Set(grid.flatMap((row) => row.flatMap((tile) => (tile.unit ? [tile.unit.id] : []))));
+  const ifSeen = (id: string | null) => (id !== null && seen.has(id) ? id : null);
+  return {
+    ...state,
+    grid,
+    cooldowns: Object.fromEntries(Object.entries(state.cooldowns).filter(([id]) => seen.has(id))),
+    acted: state.acted.filter((id) => seen.has(id)),
+    followUp: { Red: ifSeen(state.followUp.Red), Blue: ifSeen(state.followUp.Blue) },
+  };
+};
+
+/** Tiles an action touches, for deciding whom fog of war hides it from. */
+const tilesOf = (action: GameAction): [number, number][] => {
+  switch (action.type) {
+    case "move":
+      return [action.from, action.to];
+    case "attack":
+      return [action.from, action.target];
+    case "capture":
+    case "wait":
+    case "produce":
+      return [action.at];
+    default:
+      return [];
+  }
+};
+
+/**
+ * `event` as `seat` gets it under fog of war: with its view of the new state,
+ * and without the details of an opponent action it saw no part of.
+ */
+const fogEvent = (
+  event: EventMessage,
+  outcome: ActionOutcome,
+  before: GameState,
+  after: GameState,
+  seat: Player,
+): EventMessage => {
+  const tiles = event.action ? tilesOf(event.action) : [];
+  const seenOn = (visible: Visibility) => tiles.some(([x, y]) => visible[y]?.[x]);
+  const seen =
+    event.player === null ||
+    event.player === seat ||
+    tiles.length === 0 ||
+    seenOn(computeVisibility(before.grid, seat)) ||
+    seenOn(computeVisibility(after.grid, seat));
+  return seen
+    ? { ...event, state: viewFor(after, seat), outcome }
+    : { ...event, action: null, state: viewFor(after, seat) };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+/**
+ * Whether a message off the wire has the fields its type needs, so `handle`
+ * never reads a missing one. The values themselves are checked where they're used.
+ */
+const isClientMessage = (message: unknown): message is ClientMessage => {
+  if (!isRecord(message)) return false;
+  switch (message.type) {
+    case "join":
+      return (
+        typeof message.room === "string" &&
+        isOptionalString(message.name) &&
+        isOptionalString(message.token) &&
+        (message.seat === undefined || SIDES.includes(message.seat as Player)) &&
+        (message.create === undefined || isRecord(message.create))
+      );
+    case "action":
+      return Number.isInteger(message.seq) && isRecord(message.action) && typeof message.action.type === "string";
+    case "settings":
+      return isRecord(message.settings);
+    case "ready":
+      return typeof message.ready === "boolean";
+    case "say":
+      return typeof message.text === "string";
+    case "start":
+      return isRecord(message.setup);
+    case "resync":
+    case "leave":
+      return true;
+    default:
+      return false;
+  }
+};
+
+const isInteger = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/** Reasons the host's settings can't make a match, or null when they're usable. */
+const checkSettings = (settings: LobbySettings | MatchSetup): string | null => {
+  if (![10, 20, 30].includes(settings.mapSize)) return "Map size must be 10, 20 or 30";
+  if (!RULESETS[settings.ruleset]) return `Unknown ruleset "${settings.ruleset}"`;
+  if (settings.mode !== "turns" && settings.mode !== "realtime") return `Unknown mode "${settings.mode}"`;
+  if (typeof settings.fogOfWar !== "boolean") return "Fog of war must be on or off";
+  if (!isInteger(settings.startingFunds, 0, MAX_STARTING_FUNDS))
+    return `Starting funds must be a whole amount up to $${MAX_STARTING_FUNDS}`;
+  if (!isInteger(settings.turnTimeLimit, 0, MAX_TIME_LIMIT))
+    return `The time limit must be 0–${MAX_TIME_LIMIT} seconds`;
+  if (settings.seed !== null && !isInteger(settings.seed, 0, 0xffffffff)) return "Bad map seed";
+  const [lng, lat] = Array.isArray(settings.battleLocation) ? settings.battleLocation : [Number.NaN, Number.NaN];
+  if (!(Math.abs(lng) <= 180 && Math.abs(lat) <= 90)) return "Bad battle location";
+
+  const { victory } = settings;
+  if (typeof victory !== "object" || victory === null) return "Missing victory conditions";
+  if (![victory.annihilation, victory.hqCapture, victory.scoreAtTimeLimit].every((flag) => typeof flag === "boolean"))
+    return "Bad victory conditions";
+  if (victory.cityShare !== null && !(CITY_SHARE_OPTIONS as readonly number[]).includes(victory.cityShare))
+    return "Bad city share";
+  // Same rule as the Lobby: without a condition or a real-time match clock nobody could win
+  const hasMatchClock = settings.mode === "realtime" && settings.turnTimeLimit > 0;
+  if (!victory.annihilation && !victory.hqCapture && victory.cityShare === null && !hasMatchClock)
+    return "Pick at least one victory condition, or set a real-time match clock";
+  return null;
+};
+
+const checkSetup = (setup: MatchSetup): string | null => {
+  const { terrain } = setup;
+  if (terrain !== null) {
+    if (
+      !Array.isArray(terrain) ||
+      terrain.length !== setup.mapSize ||
+      terrain.some((row) => !Array.isArray(row) || row.length !== setup.mapSize)
+    )
+      return "Terrain does not match the map size";
+    if (terrain.some((row) => row.some((cell) => !TERRAIN_TYPE_LIST.includes(cell))))
+      return "Unknown terrain in the map";
+  }
+  return checkSettings(setup);
+};
+
+/** Whether the host's setup is the match the room readied on (any seed, if the room left it open). */
+const matchesRoom = (setup: MatchSetup, settings: LobbySettings): boolean =>
+  (settings.seed === null || settings.seed === setup.seed) &&
+  setup.mode === settings.mode &&
+  setup.fogOfWar === settings.fogOfWar &&
+  setup.ruleset === settings.ruleset &&
+  setup.startingFunds === settings.startingFunds &&
+  setup.mapSize === settings.mapSize &&
+  setup.turnTimeLimit === settings.turnTimeLimit &&
+  setup.battleLocation[0] === settings.battleLocation[0] &&
+  setup.battleLocation[1] === settings.battleLocation[1] &&
+  setup.victory.annihilation === settings.victory.annihilation &&
+  setup.victory.hqCapture === settings.victory.hqCapture &&
+  setup.victory.cityShare === settings.victory.cityShare &&
+  setup.victory.scoreAtTimeLimit === settings.victory.scoreAtTimeLimit;
+
+/** A display name: trimmed, short and filtered; falls back to the seat. */
+const cleanName = (name: string | undefined, seat: Player) => {
+  const trimmed = (name ?? "").replace(/\s+/g, " ").trim().slice(0, NAME_MAX_LENGTH);
+  return trimmed ? filterProfanity(trimmed) : seat;
+};
+
+const createMatch = (setup: MatchSetup, now: number): Match => {
+  const ruleset = RULESETS[setup.ruleset];
+  setGridSize(setup.terrain?.length ?? setup.mapSize);
+  applyRuleset(ruleset);
+  const rng = createRng(setup.seed);
+  const grid = createMatchGrid(rng, setup.terrain ?? undefined);
+  const state = createGameState(grid, {
+    seed: setup.seed,
+    rngState: rng.state(),
+    mode: setup.mode,
+    fogOfWar: setup.fogOfWar,
+    victory: setup.victory,
+    funds: setup.startingFunds,
+  });
+  return {
+    setup,
+    ruleset,
+    state,
+    seq: 0,
+    nextRegen: now + ruleset.timing.apRegenInterval,
+    nextIncome: now + ruleset.timing.incomeInterval,
+    deadline: setup.turnTimeLimit > 0 ? now + setup.turnTimeLimit * 1000 : null,
+  };
+};
+
+export const createMatchServer = (): MatchServer => {
+  const rooms = new Map<string, Room>();
+  /** Connection → code of the room it sits in. */
+  const members = new Map<string, string>();
+  /** Connection → when it last chatted, for the rate limit. */
+  const chatTimes = new Map<string, number[]>();
+
+  // The rules tables and grid size are module state shared by every room —
+  // load the match's own before each engine call
+  const useRules = (match: Match) => {
+    setGridSize(match.state.grid.length);
+    if (RULESET_ID !== match.ruleset.id) applyRuleset(match.ruleset);
+  };
+
+  const toRoom = (room: Room, message: ServerMessage): Outgoing[] =>
+    SIDES.flatMap((side) => {
+      const connection = room.seats[side];
+      return connection ? [{ to: connection, message }] : [];
+    });
+
+  const roomInfo = (room: Room): RoomInfo => ({
+    code: room.code,
+    phase: room.match ? "match" : "lobby",
+    members: SIDES.flatMap((player) => {
+      const name = room.names[player];
+      return name === null ? [] : [{ player, name, ready: room.ready[player], connected: room.seats[player] !== null }];
+    }),
+    settings: room.settings,
+  });
+
+  /** Who's here, to everyone: the member list for the Lobby, presence for the match. */
+  const broadcastRoom = (room: Room): Outgoing[] => [
+    ...toRoom(room, { type: "room", room: roomInfo(room) }),
+    ...toRoom(room, { type: "presence", connected: { Red: room.seats.Red !== null, Blue: room.seats.Blue !== null } }),
+  ];
+
+  const addChat = (room: Room, line: Omit<ChatEntry, "id">): Outgoing[] => {
+    const entry = { ...line, id: room.chatSeq++ };
+    room.chat = [...room.chat, entry].slice(-CHAT_HISTORY);
+    return toRoom(room, { type: "chat", entries: [entry] });
+  };
+
+  const snapshot = (match: Match, seat: Player, now: number): ServerMessage => {
+    // The fog view reads the vision tables
+    useRules(match);
+    return {
+      type: "snapshot",
+      state: viewFor(match.state, seat),
+      seq: match.seq,
+      clockRemaining: match.deadline !== null ? Math.max(0, match.deadline - now) : undefined,
+    };
+  };
+
+  /** Apply an action to the match and broadcast it, or say why the engine rejected it. */
+  const commit = (
+    room: Room,
+    match: Match,
+    action: GameAction,
+    player: Player | null,
+    now: number,
+    clientSeq?: number,
+  ): { outgoing: Outgoing[] } | { error: string } => {
+    useRules(match);
+    const before = match.state;
+    const { state, outcome, error } = applyAction(before, action);
+    if (!outcome) return { error: error ?? "Action rejected" };
+    match.state = state;
+    match.seq++;
+    const limit = match.setup.turnTimeLimit * 1000;
+    if (outcome.type === "endTurn" && limit > 0) match.deadline = now + limit;
+    if (state.winner) match.deadline = null;
+    const event: EventMessage = { type: "event", seq: match.seq, player, action, clientSeq };
+    if (!state.fogOfWar) return { outgoing: toRoom(room, event) };
+    return {
+      outgoing: SIDES.flatMap((side) => {
+        const connection = room.seats[side];
+        return connection ? [{ to: connection, message: fogEvent(event, outcome, before, state, side) }] : [];
+      }),
+    };
+  };
+
+  const leave = (connection: string, now: number): Outgoing[] => {
+    const code = members.get(connection);
+    members.delete(connection);
+    chatTimes.delete(connection);
+    const room = code ? rooms.get(code) : undefined;
+    const side = room && SIDES.find((s) => room.seats[s] === connection);
+    if (!room || !side) return [];
+    room.seats[side] = null;
+    room.ready[side] = false;
+    if (!room.seats.Red && !room.seats.Blue) room.emptySince = now;
+    // A match holds the seat for its player; a guest leaving the Lobby frees it
+    if (!room.match && side !== "Red") {
+      const name = room.names[side];
+      room.names[side] = null;
+      room.tokens[side] = null;
+      return [...addChat(room, { from: null, text: `${name} left`, at: now }), ...broadcastRoom(room)];
+    }
+    return broadcastRoom(room);
+  };
+
+  const join = (connection: string, message: JoinMessage, now: number): Outgoing[] => {
+    const reply = (m: ServerMessage): Outgoing[] => [{ to: connection, message: m }];
+    const code = message.room.trim().toUpperCase();
+    if (!code) return reply({ type: "error", message: "Enter a room code" });
+
+    let room = rooms.get(code);
+    if (message.create) {
+      if (room) return reply({ type: "error", message: `Room ${code} already exists` });
+      const problem = checkSettings(message.create);
+      if (problem) return reply({ type: "error", message: problem });
+      room = {
+        code,
+        settings: message.create,
+        seats: { Red: null, Blue: null },
+        names: { Red: null, Blue: null },
+        tokens: { Red: null, Blue: null },
+        ready: { Red: false, Blue: false },
+        chat: [],
+        chatSeq: 1,
+        match: null,
+        emptySince: null,
+      };
+      rooms.set(code, room);
+    } else if (!room) {
+      return reply({ type: "error", message: `No room ${code}` });
+    }
+
+    // A returning player proves the seat with its token and replaces any stale connection
+    const open = room;
+    const reclaim =
+      message.seat && message.token && open.tokens[message.seat] === message.token ? message.seat : undefined;
+    const seat = reclaim ?? SIDES.find((side) => open.names[side] === null);
+    if (!seat)
+      return reply({ type: "error", message: open.match ? `Room ${code} is already playing` : `Room ${code} is full` });
+
+    const out = members.has(connection) ? leave(connection, now) : [];
+    const stale = open.seats[seat];
+    if (stale && stale !== connection) members.delete(stale);
+    const arriving = !reclaim;
+    open.seats[seat] = connection;
+    if (arriving || message.name) open.names[seat] = cleanName(message.name, seat);
+    const token = open.tokens[seat] ?? globalThis.crypto.randomUUID();
+    open.tokens[seat] = token;
+    open.emptySince = null;
+    members.set(connection, code);
+
+    const name = open.names[seat] ?? seat;
+    const { battleLocation, mapSize, turnTimeLimit } = open.match?.setup ?? open.settings;
+    return [
+      ...out,
+      ...reply({
+        type: "joined",
+        room: code,
+        player: seat,
+        settings: { battleLocation, mapSize, turnTimeLimit },
+        token,
+      }),
+      ...reply({ type: "chat", entries: open.chat }),
+      ...(open.match ? reply(snapshot(open.match, seat, now)) : []),
+      ...(arriving ? addChat(open, { from: null, text: `${name} joined`, at: now }) : []),
+      ...broadcastRoom(open),
+    ];
+  };
+
+  /** Relay a chat line: trimmed, rate-limited per connection and filtered. */
+  const say = (connection: string, room: Room, seat: Player, text: string, now: number): Outgoing[] => {
+    const trimmed = text.trim().slice(0, CHAT_MAX_LENGTH);
+    if (!trimmed) return [];
+    const recent = (chatTimes.get(connection) ?? []).filter((at) => now - at < CHAT_RATE_WINDOW);
+    if (recent.length >= CHAT_RATE_LIMIT)
+      return [{ to: connection, message: { type: "error", message: "Slow down — too many messages" } }];
+    chatTimes.set(connection, [...recent, now]);
+    return addChat(room, { from: room.names[seat] ?? seat, text: filterProfanity(trimmed), at: now });
+  };
+
+  const handle = (connection: string, message: unknown, now: number): Outgoing[] => {
+    const reply = (m: ServerMessage): Outgoing[] => [{ to: connection, message: m }];
+    if (!isClientMessage(message)) return reply({ type: "error", message: "Malformed message" });
+    if (message.type === "join") return join(connection, message, now);
+    if (message.type === "leave") return leave(connection, now);
+
+    const room = rooms.get(members.get(connection) ?? "");
+    const seat = room && SIDES.find((side) => room.seats[side] === connection);
+    if (!room || !seat) return reply({ type: "error", message: "Join a room first" });
+
+    switch (message.type) {
+      case "say":
+        return say(connection, room, seat, message.text, now);
+
+      case "ready":
+        if (room.match) return [];
+        room.ready[seat] = message.ready;
+        return broadcastRoom(room);
+
+      case "settings": {
+        if (seat !== "Red") return reply({ type: "error", message: "Only the host can change the settings" });
+        if (room.match) return reply({ type: "error", message: "The match has already started" });
+        const problem = checkSettings(message.settings);
+        if (problem) return reply({ type: "error", message: problem });
+        room.settings = message.settings;
+        // What everyone agreed to has changed
+        room.ready = { Red: false, Blue: false };
+        return broadcastRoom(room);
+      }
+
+      case "start": {
+        if (seat !== "Red") return reply({ type: "error", message: "Only the host can start the match" });
+        if (room.match) return reply({ type: "error", message: "The match has already started" });
+        if (!SIDES.every((side) => room.seats[side] && room.ready[side]))
+          return reply({ type: "error", message: "Both players must be here and ready" });
+        const problem = checkSetup(message.setup);
+        if (problem) return reply({ type: "error", message: problem });
+        if (!matchesRoom(message.setup, room.settings))
+          return reply({ type: "error", message: "The match must use the settings both players readied on" });
+        room.match = createMatch(message.setup, now);
+        return [...addChat(room, { from: null, text: "The match has started", at: now }), ...broadcastRoom(room)];
+      }
+
+      case "resync":
+        return room.match ? reply(snapshot(room.match, seat, now)) : [];
+
+      case "action": {
+        const { match } = room;
+        const { seq } = message;
+        if (!match) return reply({ type: "rejected", clientSeq: seq, error: "The match has not started" });
+        // Time is the server's: the client's `now` only drove its own prediction
+        const action = toIntent(message.action, now);
+        if (!action) return reply({ type: "rejected", clientSeq: seq, error: "Not an action a player can send" });
+        if (actorOf(match.state, action) !== seat)
+          return reply({ type: "rejected", clientSeq: seq, error: `That's not yours to command` });
+        if (match.state.winner) return reply({ type: "rejected", clientSeq: seq, error: "The match is over" });
+
+        const result = commit(room, match, action, seat, now, seq);
+        return "error" in result ? reply({ type: "rejected", clientSeq: seq, error: result.error }) : result.outgoing;
+      }
+    }
+  };
+
+  const tick = (now: number): Outgoing[] => {
+    const out: Outgoing[] = [];
+    for (const [code, room] of rooms) {
+      if (room.emptySince !== null && now - room.emptySince > ROOM_IDLE_TTL) {
+        rooms.delete(code);
+        continue;
+      }
+      const { match } = room;
+      if (!match || match.state.winner) continue;
+      const run = (action: GameAction) => {
+        const result = commit(room, match, action, null, now);
+        if ("outgoing" in result) out.push(...result.outgoing);
+      };
+      if (match.state.mode === "realtime") {
+        for (; match.nextRegen <= now; match.nextRegen += match.ruleset.timing.apRegenInterval)
+          run({ type: "regenAP" });
+        for (; match.nextIncome <= now; match.nextIncome += match.ruleset.timing.incomeInterval)
+          run({ type: "income" });
+      }
+      if (match.deadline !== null && now >= match.deadline) {
+        if (match.state.mode === "turns") {
+          run({ type: "endTurn", timedOut: true });
+        } else {
+          match.deadline = null;
+          run({ type: "timeUp" });
+        }
+      }
+    }
+    return out;
+  };
+
+  return {
+    handle,
+    disconnect: leave,
+    tick,
+    roomCount: () => rooms.size,
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * personalities.ts
+ *
+ * Named AI play styles. A personality doesn't change how well the AI plays
+ * (that's difficulty) but what it values: how eagerly it attacks and
+ * captures, when it pulls damaged units back, and what army it tries to
+ * build. Picked in the Lobby next to difficulty.
+ */
+
+import type { UnitType } from "../types/game";
+
+export type PersonalityId = "balanced" | "rusher" | "turtle" | "artillery" | "economist";
+
+export interface AIPersonality {
+  id: PersonalityId;
+  name: string;
+  description: string;
+  /** Multiplier on attack scores. */
+  aggression: number;
+  /** Multiplier on capture scores. */
+  capturePriority: number;
+  /** Units at or below this fraction of full health fall back to a city (0 = never). */
+  retreatThreshold: number;
+  /** Share of the army each unit type should make up (sums to 1). */
+  composition: Record<UnitType, number>;
+}
+
+export const PERSONALITIES: Record<PersonalityId, AIPersonality> = {
+  balanced: {
+    id: "balanced",
+    name: "Balanced",
+    description: "Mixed army, fights and captures evenly.",
+    aggression: 1,
+    capturePriority: 1,
+    retreatThreshold: 0.4,
+    composition: { Infantry: 0.3, Tank: 0.3, Artillery: 0.25, Chopper: 0.15 },
+  },
+  rusher: {
+    id: "rusher",
+    name: "Rusher",
+    description: "Fast, hard-hitting units that attack at every chance and never retreat.",
+    aggression: 1.6,
+    capturePriority: 0.7,
+    retreatThreshold: 0,
+    composition: { Infantry: 0.2, Tank: 0.45, Artillery: 0.05, Chopper: 0.3 },
+  },
+  turtle: {
+    id: "turtle",
+    name: "Turtle",
+    description: "Holds its cities with tanks and artillery; picks safe fights and falls back early.",
+    aggression: 0.7,
+    capturePriority: 0.6,
+    retreatThreshold: 0.6,
+    composition: { Infantry: 0.2, Tank: 0.4, Artillery: 0.35, Chopper: 0.05 },
+  },
+  artillery: {
+    id: "artillery",
+    name: "Artillery Lover",
+    description: "Builds a gun line of artillery screened by a few tanks.",
+    aggression: 1.1,
+    capturePriority: 0.8,
+    retreatThreshold: 0.5,
+    composition: { Infantry: 0.15, Tank: 0.2, Artillery: 0.6, Chopper: 0.05 },
+  },
+  economist: {
+    id: "economist",
+    name: "Economist",
+    description: "Floods the map with infantry to grab cities and outspend you.",
+    aggression: 0.8,
+    capturePriority: 1.8,
+    retreatThreshold: 0.4,
+    composition: { Infantry: 0.55, Tank: 0.2, Artillery: 0.15, Chopper: 0.1 },
+  },
+};
+
+export const DEFAULT_PERSONALITY: PersonalityId = "balanced";
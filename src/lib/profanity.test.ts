@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { filterProfanity } from "./profanity";
+
+describe("filterProfanity", () => {
+  it("masks blocked words but keeps their first letter and length", () => {
+    expect(filterProfanity("what the fuck")).toBe("what the f***");
+    expect(filterProfanity("Shit happens")).toBe("S*** happens");
+  });
+
+  it("catches common endings and character swaps", () => {
+    expect(filterProfanity("fucking bastards")).toBe("f****** b*******");
+    expect(filterProfanity("sh1t @sshole $hit")).toBe("s*** @****** $***");
+  });
+
+  it("leaves innocent words that merely contain one alone", () => {
+    expect(filterProfanity("Scunthorpe class assassin dickens")).toBe("Scunthorpe class assassin dickens");
+    expect(filterProfanity("good game, well played!")).toBe("good game, well played!");
+  });
+});
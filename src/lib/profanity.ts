@@ -0,0 +1,40 @@
+/**
+ * profanity.ts
+ *
+ * Small chat filter for room names and messages. Each word is compared after
+ * undoing common character swaps (`sh1t`, `@ss`), so the obvious dodges are
+ * caught; a hit keeps its first letter and stars the rest. It's a courtesy
+ * filter, not moderation — the server applies it to everything it relays.
+ */
+
+const BLOCKED = [
+  "fuck",
+  "shit",
+  "bitch",
+  "asshole",
+  "bastard",
+  "cunt",
+  "dick",
+  "pussy",
+  "slut",
+  "whore",
+  "wanker",
+  "twat",
+  "motherfuck",
+];
+
+/** Endings that still make a blocked word ("fucking", "shits"). */
+const SUFFIXES = ["", "s", "es", "er", "ers", "ing", "ed", "y", "head", "heads", "face"];
+
+const LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", $: "s" };
+
+const normalize = (word: string) => [...word.toLowerCase()].map((ch) => LEET[ch] ?? ch).join("");
+
+const isBlocked = (word: string) => {
+  const plain = normalize(word);
+  return BLOCKED.some((bad) => plain.startsWith(bad) && SUFFIXES.includes(plain.slice(bad.length)));
+};
+
+/** `text` with blocked words masked: "what the f***". */
+export const filterProfanity = (text: string): string =>
+  text.replace(/[\p{L}\p{N}@$]+/gu, (word) => (isBlocked(word) ? word[0] + "*".repeat(word.length - 1) : word));
@@ -0,0 +1,156 @@
+/**
+ * replay.ts
+ *
+ * Match recording and playback helpers. A recording is the initial engine
+ * state plus every accepted action with its outcome and a timestamp relative
+ * to match start. Because `applyAction` is deterministic, playback simply
+ * re-applies the actions — the outcomes are stored for the event log and
+ * balance review, not needed to rebuild state.
+ */
+
+import type { ActionOutcome, GameAction, GameState } from "./engine";
+import { applyAction } from "./engine";
+import { DEFAULT_RULESET } from "./rulesets";
+import { DEFAULT_VICTORY } from "./victory";
+
+export const REPLAY_VERSION = 1;
+
+/** Who issued an action: the human (Red), the AI (Blue), or the game clock (AP and income ticks). */
+export type ReplayActor = "player" | "ai" | "system";
+
+export interface ReplayEvent {
+  /** Milliseconds since match start. */
+  t: number;
+  actor: ReplayActor;
+  action: GameAction;
+  outcome: ActionOutcome;
+}
+
+export interface MatchRecording {
+  version: number;
+  seed: number;
+  mapSize: number;
+  battleLocation: [number, number];
+  /** Wall-clock ms at match start; event `t` values are relative to this. */
+  startedAt: number;
+  initialState: GameState;
+  events: ReplayEvent[];
+}
+
+export const createRecording = (
+  initialState: GameState,
+  meta: { mapSize: number; battleLocation: [number, number]; startedAt: number },
+): MatchRecording => ({
+  version: REPLAY_VERSION,
+  seed: initialState.seed,
+  mapSize: meta.mapSize,
+  battleLocation: meta.battleLocation,
+  startedAt: meta.startedAt,
+  initialState,
+  events: [],
+});
+
+/** Append an accepted action to the log (mutates — recordings are append-only). */
+export const recordEvent = (
+  recording: MatchRecording,
+  actor: ReplayActor,
+  action: GameAction,
+  outcome: ActionOutcome,
+  at: number,
+) => {
+  recording.events.push({ t: at - recording.startedAt, actor, action, outcome });
+};
+
+/**
+ * Re-run the log through the engine. `states[i]` is the state after the
+ * first `i` events, so `states[0]` is the initial board.
+ */
+export const buildReplayStates = (recording: MatchRecording): GameState[] => {
+  const states: GameState[] = [recording.initialState];
+  let state = recording.initialState;
+  for (const event of recording.events) {
+    const result = applyAction(state, event.action);
+    if (result.outcome) state = result.state;
+    else console.warn("[replay] event rejected during playback:", result.error, event);
+    states.push(state);
+  }
+  return states;
+};
+
+/** Human-readable one-liner for the event list. */
+export const describeEvent = (event: ReplayEvent): string => {
+  const { outcome, action } = event;
+  const who = event.actor === "ai" ? "AI " : "";
+  switch (outcome.type) {
+    case "move":
+      return `${who}${outcome.unit.player} ${outcome.unit.type} moved (${outcome.from.join(",")}) → (${outcome.to.join(",")})`;
+    case "attack": {
+      const target = action.type === "attack" ? ` at (${action.target.join(",")})` : "";
+      let text = `${who}${outcome.attacker.player} ${outcome.attacker.type} hit ${outcome.defender.type}${target} for ${outcome.damage}`;
+      if (outcome.defenderDestroyed) text += " — destroyed";
+      if (outcome.counterDamage !== null) text += `, took ${outcome.counterDamage} counter`;
+      if (outcome.attackerDestroyed) text += " — attacker destroyed";
+      return text;
+    }
+    case "capture":
+      return outcome.captured
+        ? `${who}${outcome.unit.player} captured ${outcome.hq ? "an HQ" : "a city"}`
+        : `${who}${outcome.unit.player} capturing (${outcome.progress})`;
+    case "produce":
+      return `${who}${outcome.unit.player} produced ${outcome.unit.type} for $${outcome.cost}`;
+    case "wait":
+      return `${who}${outcome.unit.player} ${outcome.unit.type} waited`;
+    case "regenAP":
+      return "AP +1";
+    case "income":
+      return `Income: Red +$${outcome.amounts.Red}, Blue +$${outcome.amounts.Blue}`;
+    case "endTurn": {
+      const timedOut = action.type === "endTurn" && action.timedOut ? "Time's up — " : "";
+      return `${timedOut}Turn ${outcome.turn}: ${outcome.player} to move (+$${outcome.income}${outcome.repaired ? `, ${outcome.repaired} repaired` : ""})`;
+    }
+    case "timeUp":
+      return `Time's up — ${outcome.winner} wins on cities ${outcome.cities.Red}–${outcome.cities.Blue}, unit value $${outcome.unitValue.Red}–$${outcome.unitValue.Blue}`;
+  }
+};
+
+// ── Persistence ───────────────────────────────────────────────────────────
+
+const LAST_REPLAY_KEY = "bff_replay_last";
+
+/**
+ * Keep the most recent match in localStorage so it survives the game ending or a reload.
+ * This serializes the whole log, so save at checkpoints (match end, page hidden), not per action.
+ */
+export function saveLastRecording(recording: MatchRecording) {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, JSON.stringify(recording));
+  } catch {
+    /* quota full */
+  }
+}
+
+export function loadLastRecording(): MatchRecording | null {
+  try {
+    const raw = localStorage.getItem(LAST_REPLAY_KEY);
+    return raw ? parseRecording(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a recording from JSON (localStorage or an uploaded file). Returns null if it isn't one. */
+export function parseRecording(json: string): MatchRecording | null {
+  try {
+    const parsed = JSON.parse(json) as MatchRecording;
+    if (parsed.version !== REPLAY_VERSION || !parsed.initialState || !Array.isArray(parsed.events)) return null;
+    // Recorded before victory conditions: those matches were won by annihilation
+    parsed.initialState.victory ??= { ...DEFAULT_VICTORY, hqCapture: false };
+    // …and before rulesets, under Classic
+    parsed.initialState.ruleset ??= DEFAULT_RULESET;
+    // …and before the engine tracked move follow-ups
+    parsed.initialState.followUp ??= { Red: null, Blue: null };
+    return parsed;
+  } catch {
+    return null;
+  }
+}
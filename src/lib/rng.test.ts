@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { setGridSize } from "./constants";
+import { createRng, parseSeed, randomInt } from "./rng";
+import { createMatchGrid } from "./setup";
+
+const draw = (seed: number, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng.next());
+};
+
+beforeEach(() => setGridSize(10));
+
+describe("seeded rng", () => {
+  it("repeats the same sequence for the same seed and differs for another", () => {
+    expect(draw(42, 5)).toEqual(draw(42, 5));
+    expect(draw(42, 5)).not.toEqual(draw(43, 5));
+    for (const value of draw(7, 100)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("resumes the sequence from a saved state", () => {
+    const rng = createRng(9);
+    rng.next();
+    rng.next();
+    const resumed = createRng(rng.state());
+    expect(resumed.next()).toBe(rng.next());
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  it("keeps randomInt inside [0, n)", () => {
+    const rng = createRng(3);
+    const values = Array.from({ length: 200 }, () => randomInt(rng, 4));
+    expect(new Set(values)).toEqual(new Set([0, 1, 2, 3]));
+  });
+
+  it("reads digits as the seed and hashes any other text", () => {
+    expect(parseSeed(" 1234 ")).toBe(1234);
+    expect(parseSeed("friday-challenge")).toBe(parseSeed("friday-challenge"));
+    expect(parseSeed("friday-challenge")).not.toBe(parseSeed("saturday-challenge"));
+  });
+
+  it("builds the same opening board, unit ids included, from the same seed", () => {
+    expect(createMatchGrid(createRng(11))).toEqual(createMatchGrid(createRng(11)));
+    expect(createMatchGrid(createRng(11))).not.toEqual(createMatchGrid(createRng(12)));
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * rng.ts
+ *
+ * Seedable PRNG (mulberry32) used for everything that affects gameplay —
+ * map painting, unit IDs and AI tie-breaks — so a match can be reproduced
+ * exactly from its seed.  Purely cosmetic randomness (smoke particles etc.)
+ * may keep using Math.random.
+ */
+
+export interface Rng {
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Current internal state — pass it back to createRng to resume the sequence. */
+  state: () => number;
+}
+
+export function createRng(seed: number): Rng {
+  let s = seed >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => s,
+  };
+}
+
+/** Integer in [0, n). */
+export function randomInt(rng: Rng, n: number): number {
+  return Math.floor(rng.next() * n);
+}
+
+/** Fresh seed for a new match — the only place gameplay touches Math.random. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Turn user input into a seed. Plain integers are used as-is; any other text
+ * (e.g. "friday-challenge") is hashed with FNV-1a so it can be shared verbatim.
+ */
+export function parseSeed(input: string): number {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,61 @@
+/**
+ * roomClient.ts
+ *
+ * The Lobby's connection to a room before the match: member list, ready
+ * flags, the host's settings and chat. When the host starts the match the
+ * Lobby hands the seat (and its token) to the Game page, which rejoins
+ * through netClient.ts.
+ */
+
+import type { ChatEntry, ClientMessage, JoinMessage, JoinedMessage, RoomInfo, ServerMessage } from "./netProtocol";
+
+export interface RoomHandlers {
+  onJoined: (message: JoinedMessage) => void;
+  onRoom: (room: RoomInfo) => void;
+  /** History on joining, then each new entry. */
+  onChat: (entries: ChatEntry[]) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface RoomClient {
+  send: (message: Exclude<ClientMessage, JoinMessage>) => void;
+  close: () => void;
+}
+
+/** Connect to the server at `url` and join (or create) a room. */
+export const connectRoom = (url: string, join: JoinMessage, handlers: RoomHandlers): RoomClient => {
+  let closedByUs = false;
+  const socket = new WebSocket(url);
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.onopen = () => send(join);
+  socket.onmessage = (event: MessageEvent<string>) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(event.data) as ServerMessage;
+    } catch (err) {
+      console.warn("[room] bad message:", err);
+      return;
+    }
+    if (message.type === "joined") handlers.onJoined(message);
+    else if (message.type === "room") handlers.onRoom(message.room);
+    else if (message.type === "chat") handlers.onChat(message.entries);
+    else if (message.type === "error") handlers.onError(message.message);
+  };
+  socket.onclose = () => {
+    if (!closedByUs) handlers.onClose();
+  };
+
+  return {
+    send,
+    close: () => {
+      closedByUs = true;
+      // Once the match has started the server holds the seat for the Game page
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import classicJson from "../rulesets/classic.json";
+import { DEFAULT_RULESET, RULESETS, getRuleset, parseRuleset } from "./rulesets";
+
+type Json = Record<string, unknown>;
+
+/** A copy of Classic with `changes` applied by dotted path; `undefined` removes the key. */
+const classicWith = (changes: Record<string, unknown>): Json => {
+  const raw = structuredClone(classicJson) as Json;
+  for (const [path, value] of Object.entries(changes)) {
+    const keys = path.split(".");
+    const last = keys.pop() as string;
+    const parent = keys.reduce((obj, key) => obj[key] as Json, raw);
+    if (value === undefined) Reflect.deleteProperty(parent, last);
+    else parent[last] = value;
+  }
+  return raw;
+};
+
+const issuesOf = (raw: unknown): string[] => {
+  try {
+    parseRuleset(raw);
+  } catch (err) {
+    return (err as Error).message
+      .split("\n")
+      .slice(1)
+      .map((line) => line.trim());
+  }
+  return [];
+};
+
+describe("parseRuleset", () => {
+  it("accepts every built-in ruleset", () => {
+    expect(Object.keys(RULESETS)).toEqual(["classic", "game2"]);
+    expect(parseRuleset(classicWith({}))).toEqual(classicJson);
+  });
+
+  it("lists every problem at once, by path", () => {
+    const { maxAP } = classicJson.timing;
+    const broken = classicWith({
+      "units.Tank.cost": "cheap",
+      "units.Chopper.movementClass": "hover",
+      "damage.Infantry.Tank": 150,
+      "terrain.Forest": undefined,
+      "timing.startingAP": maxAP + 1,
+      "economy.captureThreshold": 0,
+      bonus: true,
+    });
+
+    expect(issuesOf(broken)).toEqual([
+      "bonus: unknown key",
+      "units.Tank.cost: expected a number",
+      "units.Chopper.movementClass: expected one of foot, treads, tires, air, naval",
+      "damage.Infantry.Tank: 150 is outside 0–100",
+      "terrain.Forest: missing",
+      `timing.startingAP: ${maxAP + 1} is outside 0–${maxAP}`,
+      "economy.captureThreshold: 0 is outside 1–∞",
+    ]);
+  });
+
+  it("allows impassable terrain but not free or unknown moves", () => {
+    const ruleset = classicWith({
+      "movementCosts.foot.Water": null,
+      "movementCosts.foot.Plain": 0,
+      "movementCosts.air.Lava": 1,
+    });
+    expect(issuesOf(ruleset)).toEqual([
+      "movementCosts.foot.Plain: 0 is outside 0.1–∞",
+      "movementCosts.air.Lava: unknown key",
+    ]);
+  });
+
+  it("needs a buildable unit type", () => {
+    const ruleset = classicWith(
+      Object.fromEntries(Object.keys(classicJson.units).map((type) => [`units.${type}.buildable`, false])),
+    );
+    expect(issuesOf(ruleset)).toEqual(["units: at least one unit type must be buildable"]);
+  });
+
+  it("names the source in the error and rejects non-objects", () => {
+    expect(() => parseRuleset(null, "ruleset mine.json")).toThrow(
+      "Invalid ruleset mine.json:\n  ruleset: expected an object",
+    );
+  });
+});
+
+describe("getRuleset", () => {
+  it("falls back to Classic for a missing or removed ruleset", () => {
+    expect(getRuleset(undefined).id).toBe(DEFAULT_RULESET);
+    expect(getRuleset("gone").id).toBe(DEFAULT_RULESET);
+    expect(getRuleset("game2").id).toBe("game2");
+  });
+});
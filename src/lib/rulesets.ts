@@ -0,0 +1,186 @@
+/**
+ * rulesets.ts
+ *
+ * Balance data as JSON. A ruleset holds every tunable number — unit stats
+ * and costs, the damage table, terrain defense, movement costs, AP and
+ * cooldown timings and the economy — so designers can iterate without
+ * touching TypeScript. Built-ins live in src/rulesets/*.json and are checked
+ * by `parseRuleset` when this module loads; `applyRuleset` (constants.ts)
+ * makes one the active rules before a match is set up.
+ */
+
+import classicJson from "../rulesets/classic.json";
+import game2Json from "../rulesets/game2.json";
+import type { MovementClass, TerrainType, UnitType } from "../types/game";
+
+export interface UnitRules {
+  cost: number;
+  health: number;
+  moveRange: number;
+  attackRange: number;
+  /** Fog of war sight, in tiles (Manhattan distance). */
+  vision: number;
+  movementClass: MovementClass;
+  /** Whether factories can produce it; unbuildable types still exist in the damage table. */
+  buildable: boolean;
+}
+
+export interface Ruleset {
+  id: string;
+  name: string;
+  description: string;
+  units: Record<UnitType, UnitRules>;
+  /** Damage (% of a full-health defender) by a full-health attacker: damage[attacker][defender]. */
+  damage: Record<UnitType, Record<UnitType, number>>;
+  terrain: Record<TerrainType, { defenseBonus: number }>;
+  /** Movement points to enter a tile, per movement class; null = impassable. */
+  movementCosts: Record<MovementClass, Record<TerrainType, number | null>>;
+  timing: {
+    maxAP: number;
+    startingAP: number;
+    /** Real-time: ms per +1 AP. */
+    apRegenInterval: number;
+    /** Real-time: ms a unit is locked after acting. */
+    cooldownDuration: number;
+    /** Real-time: ms between city income ticks. */
+    incomeInterval: number;
+  };
+  economy: {
+    /** Funds per owned city at each income tick / turn start. */
+    cityIncome: number;
+    /** Funds awarded on a successful capture. */
+    captureReward: number;
+    /** Capture points needed to take a city. */
+    captureThreshold: number;
+    /** Hp restored to units on their own city at turn start. */
+    repairAmount: number;
+  };
+}
+
+const UNIT_TYPE_IDS: UnitType[] = ["Infantry", "Tank", "Artillery", "Chopper"];
+const TERRAIN_TYPE_IDS: TerrainType[] = ["Plain", "Mountain", "Forest", "City", "Road", "Water"];
+const MOVEMENT_CLASS_IDS: MovementClass[] = ["foot", "treads", "tires", "air", "naval"];
+const RULESET_KEYS = ["id", "name", "description", "units", "damage", "terrain", "movementCosts", "timing", "economy"];
+
+// ── Validation ────────────────────────────────────────────────────────────
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Collects every problem in one pass, so a designer sees the whole list at once. */
+const collectIssues = (raw: unknown): string[] => {
+  const issues: string[] = [];
+
+  const object = (value: unknown, path: string): Record<string, unknown> | null => {
+    if (isObject(value)) return value;
+    issues.push(`${path}: expected an object`);
+    return null;
+  };
+  const number = (value: unknown, path: string, min: number, max = Number.POSITIVE_INFINITY) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) issues.push(`${path}: expected a number`);
+    else if (value < min || value > max)
+      issues.push(`${path}: ${value} is outside ${min}–${max === Number.POSITIVE_INFINITY ? "∞" : max}`);
+  };
+  const string = (value: unknown, path: string) => {
+    if (typeof value !== "string" || value.trim() === "") issues.push(`${path}: expected a non-empty string`);
+  };
+  /** An object keyed by exactly `keys`; calls `check` on each entry. */
+  const table = (value: unknown, path: string, keys: string[], check: (entry: unknown, path: string) => void) => {
+    const obj = object(value, path);
+    if (!obj) return;
+    for (const key of keys) {
+      if (key in obj) check(obj[key], `${path}.${key}`);
+      else issues.push(`${path}.${key}: missing`);
+    }
+    for (const key of Object.keys(obj)) if (!keys.includes(key)) issues.push(`${path}.${key}: unknown key`);
+  };
+
+  const ruleset = object(raw, "ruleset");
+  if (!ruleset) return issues;
+
+  for (const key of Object.keys(ruleset)) if (!RULESET_KEYS.includes(key)) issues.push(`${key}: unknown key`);
+  string(ruleset.id, "id");
+  string(ruleset.name, "name");
+  string(ruleset.description, "description");
+
+  table(ruleset.units, "units", UNIT_TYPE_IDS, (entry, path) => {
+    const unit = object(entry, path);
+    if (!unit) return;
+    number(unit.cost, `${path}.cost`, 0);
+    number(unit.health, `${path}.health`, 1);
+    number(unit.moveRange, `${path}.moveRange`, 1);
+    number(unit.attackRange, `${path}.attackRange`, 1);
+    number(unit.vision, `${path}.vision`, 0);
+    if (!MOVEMENT_CLASS_IDS.includes(unit.movementClass as MovementClass))
+      issues.push(`${path}.movementClass: expected one of ${MOVEMENT_CLASS_IDS.join(", ")}`);
+    if (typeof unit.buildable !== "boolean") issues.push(`${path}.buildable: expected true or false`);
+  });
+  const units = ruleset.units;
+  if (isObject(units) && UNIT_TYPE_IDS.every((type) => isObject(units[type]) && units[type].buildable === false))
+    issues.push("units: at least one unit type must be buildable");
+
+  table(ruleset.damage, "damage", UNIT_TYPE_IDS, (row, path) =>
+    table(row, path, UNIT_TYPE_IDS, (value, cell) => number(value, cell, 0, 100)),
+  );
+
+  table(ruleset.terrain, "terrain", TERRAIN_TYPE_IDS, (entry, path) => {
+    const terrain = object(entry, path);
+    if (terrain) number(terrain.defenseBonus, `${path}.defenseBonus`, 0, 90);
+  });
+
+  table(ruleset.movementCosts, "movementCosts", MOVEMENT_CLASS_IDS, (row, path) =>
+    table(row, path, TERRAIN_TYPE_IDS, (value, cell) => {
+      if (value !== null) number(value, cell, 0.1);
+    }),
+  );
+
+  const timing = object(ruleset.timing, "timing");
+  if (timing) {
+    number(timing.maxAP, "timing.maxAP", 1);
+    number(
+      timing.startingAP,
+      "timing.startingAP",
+      0,
+      typeof timing.maxAP === "number" ? timing.maxAP : Number.POSITIVE_INFINITY,
+    );
+    number(timing.apRegenInterval, "timing.apRegenInterval", 1000);
+    number(timing.cooldownDuration, "timing.cooldownDuration", 0);
+    number(timing.incomeInterval, "timing.incomeInterval", 1000);
+  }
+
+  const economy = object(ruleset.economy, "economy");
+  if (economy) {
+    number(economy.cityIncome, "economy.cityIncome", 0);
+    number(economy.captureReward, "economy.captureReward", 0);
+    number(economy.captureThreshold, "economy.captureThreshold", 1);
+    number(economy.repairAmount, "economy.repairAmount", 0);
+  }
+
+  return issues;
+};
+
+/**
+ * Validate parsed JSON as a ruleset. Throws an Error listing every problem
+ * (`units.Tank.cost: expected a number`, …) when it doesn't match the schema.
+ */
+export const parseRuleset = (raw: unknown, source = "ruleset"): Ruleset => {
+  const issues = collectIssues(raw);
+  if (issues.length > 0) throw new Error(`Invalid ${source}:\n  ${issues.join("\n  ")}`);
+  return raw as Ruleset;
+};
+
+// ── Built-ins ─────────────────────────────────────────────────────────────
+
+/** Built-in rulesets by id, validated at load — a bad edit to the JSON fails fast. */
+export const RULESETS: Record<string, Ruleset> = Object.fromEntries(
+  [classicJson, game2Json].map((json) => {
+    const ruleset = parseRuleset(json, `ruleset ${json.id}.json`);
+    return [ruleset.id, ruleset];
+  }),
+);
+
+export const DEFAULT_RULESET = "classic";
+
+/** Ruleset by id; unknown ids (e.g. a save from a removed ruleset) fall back to Classic. */
+export const getRuleset = (id: string | undefined): Ruleset =>
+  RULESETS[id ?? DEFAULT_RULESET] ?? RULESETS[DEFAULT_RULESET];
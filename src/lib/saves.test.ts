@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setGridSize } from "./constants";
+import { applyAction, createGameState } from "./engine";
+import { createRng } from "./rng";
+import { SAVE_VERSION, type SaveGame, createSave, listSaves, readSave, restoreState, writeSave } from "./saves";
+import { createMatchGrid } from "./setup";
+
+// Just enough of localStorage for the slot functions
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+};
+
+const settings = {
+  isAIEnabled: true,
+  aiDifficulty: "medium",
+  aiPersonality: "balanced",
+  battleLocation: [0, 0],
+  mapSize: 10,
+  turnTimeLimit: 0,
+} as const;
+
+const freshSave = (id: string, now = 1000): SaveGame => {
+  const rng = createRng(7);
+  const state = createGameState(createMatchGrid(rng), { seed: 7, rngState: rng.state() });
+  const unit = state.grid.flat().find((tile) => tile.unit)?.unit;
+  return createSave(
+    id,
+    "Test",
+    { ...state, cooldowns: unit ? { [unit.id]: now + 4000 } : {} },
+    {
+      settings: { ...settings, battleLocation: [0, 0] },
+      aiRngState: 1,
+    },
+    now,
+  );
+};
+
+/** The same save as a version-1 build wrote it: before turns, fog, clocks, personalities, victory, rulesets and follow-ups. */
+const asVersion1 = (save: SaveGame) => {
+  const { mode, turn, activePlayer, acted, fogOfWar, winReason, victory, ruleset, followUp, ...state } = save.state;
+  const { turnTimeLimit, aiPersonality, ...oldSettings } = save.settings;
+  return { ...save, version: 1, state, settings: oldSettings };
+};
+
+beforeEach(() => {
+  setGridSize(10);
+  vi.stubGlobal("localStorage", memoryStorage());
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe("save slots", () => {
+  it("round-trips a save and re-bases cooldowns on the load time", () => {
+    const save = freshSave("slot_a");
+    writeSave(save);
+    const loaded = readSave("slot_a");
+    if (!loaded) throw new Error("The save did not load");
+    expect(loaded).toEqual(save);
+    expect(Object.values(loaded.cooldownsRemaining)).toEqual([4000]);
+    expect(Object.values(restoreState(loaded, 50_000).cooldowns)).toEqual([54_000]);
+  });
+
+  it("migrates a version-1 save through every step", () => {
+    const current = freshSave("slot_old");
+    localStorage.setItem("bff_save_slot_old", JSON.stringify(asVersion1(current)));
+
+    const migrated = readSave("slot_old");
+    if (!migrated) throw new Error("The old save did not load");
+    expect(migrated.version).toBe(SAVE_VERSION);
+    expect(migrated.state).toMatchObject({
+      mode: "realtime",
+      turn: 1,
+      activePlayer: "Red",
+      acted: [],
+      fogOfWar: false,
+      winReason: null,
+      victory: { annihilation: true, hqCapture: false, cityShare: null, scoreAtTimeLimit: false },
+      ruleset: "classic",
+      followUp: { Red: null, Blue: null },
+    });
+    expect(migrated.settings).toMatchObject({ turnTimeLimit: 0, aiPersonality: "balanced" });
+
+    // The engine takes the migrated state as it is
+    const state = restoreState(migrated, 0);
+    expect(applyAction(state, { type: "regenAP" }).error).toBeUndefined();
+  });
+
+  it("skips saves it cannot load", () => {
+    writeSave(freshSave("slot_good"));
+    localStorage.setItem("bff_save_future", JSON.stringify({ ...freshSave("future"), version: SAVE_VERSION + 1 }));
+    localStorage.setItem("bff_save_broken", "{not json");
+    localStorage.setItem("bff_save_nogrid", JSON.stringify({ ...freshSave("nogrid"), state: {} }));
+
+    expect(readSave("future")).toBeNull();
+    expect(readSave("broken")).toBeNull();
+    expect(readSave("nogrid")).toBeNull();
+    expect(listSaves().map((save) => save.id)).toEqual(["slot_good"]);
+  });
+});
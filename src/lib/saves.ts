@@ -0,0 +1,185 @@
+/**
+ * saves.ts
+ *
+ * Save slots for resuming a match after a reload or a Farcaster webview
+ * suspend.  Each slot is one localStorage entry holding a versioned
+ * `SaveGame`.  Cooldowns are stored as *remaining* milliseconds (not absolute
+ * timestamps) so a game restored hours later doesn't come back with every
+ * unit already unlocked.
+ *
+ * When the engine state changes shape, bump SAVE_VERSION and add a step to
+ * MIGRATIONS that upgrades the previous version — old saves keep loading.
+ */
+
+import type { GameState } from "./engine";
+import type { PersonalityId } from "./personalities";
+
+export const SAVE_VERSION = 8;
+
+/** Slot written automatically after every action; backs the Lobby's "Continue". */
+export const AUTOSAVE_ID = "autosave";
+
+const SLOT_PREFIX = "bff_save_";
+
+export interface SaveSettings {
+  isAIEnabled: boolean;
+  aiDifficulty: "easy" | "medium" | "hard";
+  aiPersonality: PersonalityId;
+  battleLocation: [number, number];
+  mapSize: 10 | 20 | 30;
+  /** Seconds per turn (turn mode) or for the whole match (real-time); 0 = no limit. */
+  turnTimeLimit: number;
+  /** Two players on one device: Blue is human too. */
+  hotSeat?: boolean;
+}
+
+export interface SaveGame {
+  version: number;
+  id: string;
+  name: string;
+  /** Wall-clock ms when the slot was written. */
+  savedAt: number;
+  /** Identifies the match the save belongs to, so a reload resumes instead of restarting. */
+  matchId?: string;
+  settings: SaveSettings;
+  state: Omit<GameState, "cooldowns">;
+  /** Unit id → ms of cooldown left at save time. */
+  cooldownsRemaining: Record<string, number>;
+  /** AI RNG state, so the AI continues the same sequence of choices. */
+  aiRngState: number;
+  /** Ms left on the turn/match clock at save time (when a time limit is set). */
+  clockRemaining?: number;
+  /** Hint button uses spent so far this match. */
+  hintsUsed?: number;
+}
+
+// ── Conversion ────────────────────────────────────────────────────────────
+
+export const createSave = (
+  id: string,
+  name: string,
+  state: GameState,
+  extra: { settings: SaveSettings; aiRngState: number; matchId?: string; clockRemaining?: number; hintsUsed?: number },
+  now: number,
+): SaveGame => {
+  const { cooldowns, ...rest } = state;
+  const cooldownsRemaining: Record<string, number> = {};
+  for (const [unitId, until] of Object.entries(cooldowns)) {
+    if (until > now) cooldownsRemaining[unitId] = until - now;
+  }
+  return {
+    version: SAVE_VERSION,
+    id,
+    name,
+    savedAt: now,
+    matchId: extra.matchId,
+    settings: extra.settings,
+    state: rest,
+    cooldownsRemaining,
+    aiRngState: extra.aiRngState,
+    clockRemaining: extra.clockRemaining,
+    hintsUsed: extra.hintsUsed,
+  };
+};
+
+/** Rebuild a live engine state, re-basing cooldowns on the current clock. */
+export const restoreState = (save: SaveGame, now: number): GameState => {
+  const cooldowns: Record<string, number> = {};
+  for (const [unitId, remaining] of Object.entries(save.cooldownsRemaining)) {
+    cooldowns[unitId] = now + remaining;
+  }
+  return { ...save.state, cooldowns };
+};
+
+// ── Versioning ────────────────────────────────────────────────────────────
+
+/** A parsed save of unknown (possibly older) version. */
+type RawSave = { version?: number; [key: string]: unknown };
+
+// MIGRATIONS[n] upgrades a version-n save to version n + 1.
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2: turn mode — every v1 save was a real-time match
+  1: (save) => ({
+    ...save,
+    state: { ...(save.state as object), mode: "realtime", turn: 1, activePlayer: "Red", acted: [] },
+  }),
+  // v3: fog of war setting
+  2: (save) => ({ ...save, state: { ...(save.state as object), fogOfWar: false } }),
+  // v4: time limits — saves are only written for unfinished matches
+  3: (save) => ({
+    ...save,
+    settings: { ...(save.settings as object), turnTimeLimit: 0 },
+    state: { ...(save.state as object), winReason: null },
+  }),
+  // v5: AI personalities — older matches played the balanced AI
+  4: (save) => ({ ...save, settings: { ...(save.settings as object), aiPersonality: "balanced" } }),
+  // v6: victory conditions — older maps have no HQ, so those matches stay annihilation-only
+  5: (save) => ({
+    ...save,
+    state: {
+      ...(save.state as object),
+      victory: { annihilation: true, hqCapture: false, cityShare: null, scoreAtTimeLimit: false },
+    },
+  }),
+  // v7: rulesets — everything before was played under Classic
+  6: (save) => ({ ...save, state: { ...(save.state as object), ruleset: "classic" } }),
+  // v8: move follow-ups are engine state — none is pending in an older save
+  7: (save) => ({ ...save, state: { ...(save.state as object), followUp: { Red: null, Blue: null } } }),
+};
+
+function migrate(raw: RawSave): SaveGame | null {
+  let save = raw;
+  while (typeof save.version === "number" && save.version < SAVE_VERSION) {
+    const step = MIGRATIONS[save.version];
+    if (!step) return null;
+    save = { ...step(save), version: save.version + 1 };
+  }
+  if (save.version !== SAVE_VERSION || !(save as Partial<SaveGame>).state?.grid) return null;
+  return save as unknown as SaveGame;
+}
+
+// ── Storage ───────────────────────────────────────────────────────────────
+
+export function writeSave(save: SaveGame) {
+  try {
+    localStorage.setItem(SLOT_PREFIX + save.id, JSON.stringify(save));
+  } catch {
+    /* quota full */
+  }
+}
+
+export function readSave(id: string): SaveGame | null {
+  try {
+    const raw = localStorage.getItem(SLOT_PREFIX + id);
+    return raw ? migrate(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function deleteSave(id: string) {
+  try {
+    localStorage.removeItem(SLOT_PREFIX + id);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** All loadable saves, newest first. Unreadable or unmigratable slots are skipped. */
+export function listSaves(): SaveGame[] {
+  const saves: SaveGame[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SLOT_PREFIX)) continue;
+      const save = readSave(key.slice(SLOT_PREFIX.length));
+      if (save) saves.push(save);
+    }
+  } catch {
+    /* storage unavailable */
+  }
+  return saves.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** Fresh id for a named slot. */
+export const newSaveId = () => `slot_${Date.now().toString(36)}`;
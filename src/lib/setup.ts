@@ -0,0 +1,91 @@
+/**
+ * setup.ts
+ *
+ * Starting board for a match: terrain (random or real-world), city ownership,
+ * each side's Headquarters and its opening army. Red starts along the top rows, Blue along the
+ * bottom. Shared by the game page and the headless simulator so both play
+ * the same openings.
+ */
+
+import type { City, Player, TerrainType, Tile, UnitType } from "../types/game";
+import { GRID_SIZE, TERRAIN_TYPES } from "./constants";
+import { generateInitialGrid } from "./grid";
+import type { Rng } from "./rng";
+import { createUnit } from "./units";
+
+/** Find the nearest passable (non-water), unoccupied tile in the search area. */
+const findPassableTile = (grid: Tile[][], prefX: number, prefY: number): [number, number] => {
+  for (let r = 0; r <= 4; r++) {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (Math.abs(dx) + Math.abs(dy) !== r) continue; // ring only
+        const nx = prefX + dx;
+        const ny = prefY + dy;
+        if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
+        const t = grid[ny][nx].terrain.type;
+        if (t !== "Mountain" && t !== "Water" && !grid[ny][nx].unit) {
+          return [nx, ny];
+        }
+      }
+    }
+  }
+  return [prefX, prefY]; // fallback
+};
+
+/**
+ * Build the opening board. `rng` paints the terrain and numbers the units;
+ * `terrainOverride` (real OSM data) replaces the random painting.
+ */
+export const createMatchGrid = (rng: Rng, terrainOverride?: TerrainType[][]): Tile[][] => {
+  const initialGrid = generateInitialGrid(rng, terrainOverride);
+
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      if (initialGrid[y][x].terrain.type === "City") {
+        initialGrid[y][x].terrain = {
+          ...initialGrid[y][x].terrain,
+          owner: null,
+          captureProgress: 0,
+        } as City;
+      }
+    }
+  }
+
+  // Each side's first city in its start zone is its Headquarters — if the zone
+  // has none, build one on the nearest passable tile so the factory mechanic
+  // (and HQ capture) always works.
+  const ensureCity = (zone: "top" | "bottom", owner: Player) => {
+    const yRange = zone === "top" ? [0, 2] : [GRID_SIZE - 3, GRID_SIZE - 1];
+    for (let y = yRange[0]; y <= yRange[1]; y++)
+      for (let x = 0; x < GRID_SIZE; x++)
+        if (initialGrid[y][x].terrain.type === "City") {
+          Object.assign(initialGrid[y][x].terrain, { owner, hq: owner });
+          return;
+        }
+    // No city found — convert first passable tile in zone
+    const [cx, cy] = findPassableTile(initialGrid, 2, zone === "top" ? 1 : GRID_SIZE - 2);
+    initialGrid[cy][cx].terrain = { ...TERRAIN_TYPES.City, owner, captureProgress: 0, hq: owner } as City;
+  };
+  ensureCity("top", "Red");
+  ensureCity("bottom", "Blue");
+
+  // Place units on passable tiles near their preferred start positions
+  const place = (type: UnitType, prefX: number, prefY: number, player: Player) => {
+    const [x, y] = findPassableTile(initialGrid, prefX, prefY);
+    initialGrid[y][x].unit = createUnit(type, [x, y], player, rng);
+  };
+
+  place("Infantry", 2, 1, "Red");
+  place("Tank", 1, 2, "Red");
+  place("Artillery", 2, 3, "Red");
+  place("Infantry", 4, 1, "Red");
+  place("Infantry", 5, 2, "Red");
+
+  place("Infantry", GRID_SIZE - 3, GRID_SIZE - 2, "Blue");
+  place("Tank", GRID_SIZE - 2, GRID_SIZE - 3, "Blue");
+  place("Artillery", GRID_SIZE - 3, GRID_SIZE - 4, "Blue");
+  place("Infantry", GRID_SIZE - 5, GRID_SIZE - 2, "Blue");
+  place("Infantry", GRID_SIZE - 6, GRID_SIZE - 3, "Blue");
+
+  return initialGrid;
+};
@@ -0,0 +1,300 @@
+/**
+ * simulator.ts
+ *
+ * Headless AI-vs-AI matches for balance testing — no React, no rendering,
+ * runnable under Node (`npm run simulate`, see scripts/simulate.ts). Each
+ * match is set up like a real one (setup.ts) and driven through the engine
+ * on a virtual clock, so a batch of 100 real-time matches takes seconds,
+ * not hours. Results aggregate into win rates, match length, unit usage and
+ * kill/death per unit type.
+ */
+
+import type { Player, TerrainType, UnitType } from "../types/game";
+import { type AIContext, computeAIAction, toEngineActions } from "./ai";
+import {
+  AI_ACTION_INTERVAL,
+  AP_REGEN_INTERVAL,
+  INCOME_INTERVAL,
+  UNIT_COSTS,
+  applyRuleset,
+  setGridSize,
+} from "./constants";
+import { type ActionOutcome, type GameAction, type GameMode, applyAction, createGameState } from "./engine";
+import type { PersonalityId } from "./personalities";
+import { type Rng, createRng } from "./rng";
+import { type Ruleset, getRuleset } from "./rulesets";
+import { createMatchGrid } from "./setup";
+import type { VictoryConditions, WinReason } from "./victory";
+
+export interface AIConfig {
+  difficulty: AIContext["difficulty"];
+  personality: PersonalityId;
+  /** Hard only: planning budget per decision in ms. */
+  timeLimitMs?: number;
+}
+
+export interface SimulationOptions {
+  matches: number;
+  red: AIConfig;
+  blue: AIConfig;
+  mapSize: 10 | 20 | 30;
+  mode: GameMode;
+  fogOfWar: boolean;
+  startingFunds: number;
+  /** Match i is played with seed `seed + i`, so a batch is reproducible. */
+  seed: number;
+  /** Cached real-world maps, used in turn; random terrain when empty. */
+  terrains?: TerrainType[][][];
+  /** Turn mode: judge the match on cities and unit value after this many turns. */
+  maxTurns: number;
+  /** Real-time: judge the match after this much game time, in ms. */
+  maxDurationMs: number;
+  /** How matches can be won; the game's defaults when omitted. */
+  victory?: VictoryConditions;
+  /** Balance rules to play under; Classic when omitted. */
+  ruleset?: Ruleset;
+}
+
+type PerType = Record<UnitType, number>;
+
+export interface MatchResult {
+  seed: number;
+  winner: Player;
+  winReason: WinReason;
+  /** Turns played (turn mode) or seconds of game time (real-time). */
+  length: number;
+  /** Units each side fielded: its starting army plus everything it produced. */
+  fielded: Record<Player, PerType>;
+  kills: PerType;
+  deaths: PerType;
+}
+
+export interface UnitStats {
+  fielded: Record<Player, number>;
+  kills: number;
+  deaths: number;
+  /** kills ÷ deaths; kills when nothing of this type died. */
+  kd: number;
+}
+
+export interface SimulationReport {
+  matches: number;
+  red: AIConfig;
+  blue: AIConfig;
+  mode: GameMode;
+  ruleset: string;
+  wins: Record<Player, number>;
+  winRate: Record<Player, number>;
+  /** How matches ended: a victory condition, or judged when the turn/time cap ran out. */
+  endings: Record<WinReason, number>;
+  averageLength: number;
+  lengthUnit: "turns" | "seconds";
+  units: Record<UnitType, UnitStats>;
+}
+
+const UNIT_TYPE_LIST = Object.keys(UNIT_COSTS) as UnitType[];
+const perType = (): PerType => ({ Infantry: 0, Tank: 0, Artillery: 0, Chopper: 0 });
+
+/** Safety valve: a side that keeps finding "useful" actions still ends its turn. */
+const MAX_ACTIONS_PER_TURN = 200;
+
+/** Play one match to the end and tally what happened. */
+export const runMatch = (options: SimulationOptions, index: number): MatchResult => {
+  const seed = (options.seed + index) >>> 0;
+  const terrain = options.terrains?.length ? options.terrains[index % options.terrains.length] : undefined;
+  setGridSize(terrain?.length ?? options.mapSize);
+  applyRuleset(options.ruleset ?? getRuleset(undefined));
+
+  const rng = createRng(seed);
+  const grid = createMatchGrid(rng, terrain);
+  let state = createGameState(grid, {
+    seed,
+    rngState: rng.state(),
+    mode: options.mode,
+    fogOfWar: options.fogOfWar,
+    funds: options.startingFunds,
+    victory: options.victory,
+  });
+
+  const fielded = { Red: perType(), Blue: perType() };
+  const kills = perType();
+  const deaths = perType();
+  for (const row of state.grid) for (const tile of row) if (tile.unit) fielded[tile.unit.player][tile.unit.type]++;
+
+  const tally = (outcome: ActionOutcome) => {
+    if (outcome.type === "produce") {
+      fielded[outcome.unit.player][outcome.unit.type]++;
+    } else if (outcome.type === "attack") {
+      if (outcome.defenderDestroyed) {
+        kills[outcome.attacker.type]++;
+        deaths[outcome.defender.type]++;
+      }
+      if (outcome.attackerDestroyed) {
+        kills[outcome.defender.type]++;
+        deaths[outcome.attacker.type]++;
+      }
+    }
+  };
+
+  const apply = (action: GameAction): boolean => {
+    const result = applyAction(state, action);
+    if (!result.outcome) return false;
+    state = result.state;
+    tally(result.outcome);
+    return true;
+  };
+
+  // Each side thinks with its own RNG stream, like the game's AI does
+  const sides: Record<Player, { config: AIConfig; rng: Rng }> = {
+    Red: { config: options.red, rng: createRng(seed ^ 0x1b873593) },
+    Blue: { config: options.blue, rng: createRng(seed ^ 0x5bd1e995) },
+  };
+
+  /** Let `player` take one decision at `now`; false when it had nothing to do. */
+  const decide = (player: Player, now: number): boolean => {
+    const { config, rng: sideRng } = sides[player];
+    const action = computeAIAction({
+      state,
+      difficulty: config.difficulty,
+      personality: config.personality,
+      timeLimitMs: config.timeLimitMs,
+      now,
+      rng: sideRng,
+      player,
+    });
+    if (!action) return false;
+    let acted = false;
+    for (const step of toEngineActions(action)) {
+      if (!apply(step)) break;
+      acted = true;
+    }
+    return acted;
+  };
+
+  let length: number;
+  if (options.mode === "turns") {
+    while (!state.winner && state.turn <= options.maxTurns) {
+      let actions = 0;
+      while (!state.winner && actions++ < MAX_ACTIONS_PER_TURN && decide(state.activePlayer, 0)) {
+        /* keep acting */
+      }
+      if (!state.winner) apply({ type: "endTurn" });
+    }
+    length = Math.min(state.turn, options.maxTurns);
+  } else {
+    // Virtual clock: both sides act every AI_ACTION_INTERVAL (Red first on
+    // odd ticks, Blue first on even ones), the game ticks AP and income when
+    // they fall due — the ruleset's intervals needn't be whole ticks.
+    const tick = 1000;
+    let now = 0;
+    let nextRegen = AP_REGEN_INTERVAL;
+    let nextIncome = INCOME_INTERVAL;
+    while (!state.winner && now < options.maxDurationMs) {
+      now += tick;
+      for (; nextRegen <= now; nextRegen += AP_REGEN_INTERVAL) apply({ type: "regenAP" });
+      for (; nextIncome <= now; nextIncome += INCOME_INTERVAL) apply({ type: "income" });
+      if (now % AI_ACTION_INTERVAL === 0) {
+        const order: Player[] = (now / AI_ACTION_INTERVAL) % 2 === 1 ? ["Red", "Blue"] : ["Blue", "Red"];
+        for (const player of order) if (!state.winner) decide(player, now);
+      }
+    }
+    length = Math.round(now / 1000);
+  }
+
+  // Out of turns/time: judge on cities and unit value, like a timed-out match
+  if (!state.winner) apply({ type: "timeUp" });
+  return {
+    seed,
+    winner: state.winner ?? "Blue",
+    winReason: state.winReason ?? "timeout",
+    length,
+    fielded,
+    kills,
+    deaths,
+  };
+};
+
+/** Fold match results into the batch report. */
+export const summarize = (options: SimulationOptions, results: MatchResult[]): SimulationReport => {
+  const wins: Record<Player, number> = { Red: 0, Blue: 0 };
+  const endings: Record<WinReason, number> = { elimination: 0, hq: 0, cities: 0, timeout: 0 };
+  const units = {} as Record<UnitType, UnitStats>;
+  for (const type of UNIT_TYPE_LIST) units[type] = { fielded: { Red: 0, Blue: 0 }, kills: 0, deaths: 0, kd: 0 };
+
+  let totalLength = 0;
+  for (const result of results) {
+    wins[result.winner]++;
+    endings[result.winReason]++;
+    totalLength += result.length;
+    for (const type of UNIT_TYPE_LIST) {
+      units[type].fielded.Red += result.fielded.Red[type];
+      units[type].fielded.Blue += result.fielded.Blue[type];
+      units[type].kills += result.kills[type];
+      units[type].deaths += result.deaths[type];
+    }
+  }
+  for (const type of UNIT_TYPE_LIST) {
+    const stats = units[type];
+    stats.kd = stats.deaths > 0 ? Math.round((stats.kills / stats.deaths) * 100) / 100 : stats.kills;
+  }
+
+  const n = Math.max(results.length, 1);
+  return {
+    matches: results.length,
+    red: options.red,
+    blue: options.blue,
+    mode: options.mode,
+    ruleset: options.ruleset?.id ?? getRuleset(undefined).id,
+    wins,
+    winRate: { Red: wins.Red / n, Blue: wins.Blue / n },
+    endings,
+    averageLength: Math.round((totalLength / n) * 10) / 10,
+    lengthUnit: options.mode === "turns" ? "turns" : "seconds",
+    units,
+  };
+};
+
+/**
+ * Play the whole batch. `onMatch` is called after every match (progress
+ * output); the report covers all of them.
+ */
+export const simulate = (
+  options: SimulationOptions,
+  onMatch?: (result: MatchResult, index: number) => void,
+): SimulationReport => {
+  const results: MatchResult[] = [];
+  for (let i = 0; i < options.matches; i++) {
+    const result = runMatch(options, i);
+    results.push(result);
+    onMatch?.(result, i);
+  }
+  return summarize(options, results);
+};
+
+const describeConfig = (config: AIConfig) => `${config.difficulty}/${config.personality}`;
+
+/** Report as CSV: a summary block, then one row per unit type. */
+export const reportToCSV = (report: SimulationReport): string => {
+  const lines = [
+    "metric,value",
+    `matches,${report.matches}`,
+    `red,${describeConfig(report.red)}`,
+    `blue,${describeConfig(report.blue)}`,
+    `mode,${report.mode}`,
+    `ruleset,${report.ruleset}`,
+    `red_win_rate,${report.winRate.Red.toFixed(3)}`,
+    `blue_win_rate,${report.winRate.Blue.toFixed(3)}`,
+    `eliminations,${report.endings.elimination}`,
+    `hq_captures,${report.endings.hq}`,
+    `city_holds,${report.endings.cities}`,
+    `judged_on_time,${report.endings.timeout}`,
+    `average_length_${report.lengthUnit},${report.averageLength}`,
+    "",
+    "unit_type,fielded_red,fielded_blue,kills,deaths,kd",
+    ...UNIT_TYPE_LIST.map((type) => {
+      const u = report.units[type];
+      return `${type},${u.fielded.Red},${u.fielded.Blue},${u.kills},${u.deaths},${u.kd}`;
+    }),
+  ];
+  return `${lines.join("\n")}\n`;
+};
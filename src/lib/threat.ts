@@ -0,0 +1,68 @@
+/**
+ * threat.ts
+ *
+ * Threat maps for AI positioning. For every tile, the enemy units that could
+ * attack a unit standing there on their next action — anything within a
+ * unit's movement range plus its attack reach. The AI uses them to avoid
+ * losing trades and the board can draw them as a debug heatmap.
+ */
+
+import type { Player, Terrain, Tile, Unit } from "../types/game";
+import { calculateDamage } from "./combat";
+import { BASE_DAMAGE, GRID_SIZE, UNIT_TYPES } from "./constants";
+import { calculateMovementRange } from "./grid";
+
+/** threats[y][x]: `attacker`'s units that can strike tile (x, y). */
+export type ThreatMap = Unit[][][];
+
+export const buildThreatMap = (grid: Tile[][], attacker: Player): ThreatMap => {
+  const threats: ThreatMap = grid.map((row) => row.map(() => []));
+  for (const row of grid) {
+    for (const tile of row) {
+      const unit = tile.unit;
+      if (unit?.player !== attacker || unit.attackRange <= 0) continue;
+      const reach = new Set<string>();
+      for (const [mx, my] of [tile.position, ...calculateMovementRange(unit, grid)]) {
+        for (let dy = -unit.attackRange; dy <= unit.attackRange; dy++) {
+          for (let dx = -unit.attackRange; dx <= unit.attackRange; dx++) {
+            const x = mx + dx;
+            const y = my + dy;
+            if (Math.abs(dx) + Math.abs(dy) > unit.attackRange || x < 0 || x >= GRID_SIZE || y < 0 || y >= GRID_SIZE)
+              continue;
+            reach.add(`${x},${y}`);
+          }
+        }
+      }
+      for (const key of reach) {
+        const [x, y] = key.split(",").map(Number);
+        threats[y][x].push(unit);
+      }
+    }
+  }
+  return threats;
+};
+
+/** Damage `unit` would take on `terrain` if all of `attackers` hit it, capped at its health. */
+export const threatDamage = (attackers: Unit[], unit: Unit, terrain: Terrain): number => {
+  let damage = 0;
+  for (const attacker of attackers) {
+    damage += calculateDamage(attacker, unit, terrain);
+  }
+  return Math.min(damage, unit.health);
+};
+
+/**
+ * Heat per tile in [0, 1] for the debug overlay: the summed best-case
+ * damage of the threatening units, scaled by their health (100 = full).
+ */
+export const threatHeat = (threats: ThreatMap): number[][] =>
+  threats.map((row) =>
+    row.map((attackers) => {
+      let heat = 0;
+      for (const attacker of attackers) {
+        const strongest = Math.max(...Object.values(BASE_DAMAGE[attacker.type]));
+        heat += (strongest * attacker.health) / UNIT_TYPES[attacker.type].health;
+      }
+      return Math.min(heat / 100, 1);
+    }),
+  );
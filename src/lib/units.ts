@@ -1,10 +1,11 @@
 import type { UnitType, Player, Unit } from '../types/game';
 import { UNIT_TYPES } from './constants';
+import type { Rng } from './rng';
 
-export const generateId = () => Math.random().toString(36).substring(2, 9);
+export const generateId = (rng: Rng) => rng.next().toString(36).substring(2, 9);
 
-export const createUnit = (type: UnitType, position: [number, number], player: Player): Unit => ({
-  id: generateId(),
+export const createUnit = (type: UnitType, position: [number, number], player: Player, rng: Rng): Unit => ({
+  id: generateId(rng),
   position,
   player,
   ...UNIT_TYPES[type],
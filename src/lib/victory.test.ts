@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { City, Player, Tile, UnitType } from "../types/game";
+import { TERRAIN_TYPES, UNIT_COSTS, UNIT_TYPES } from "./constants";
+import { createRng } from "./rng";
+import { createUnit } from "./units";
+import { DEFAULT_VICTORY, type VictoryConditions, checkVictory, judgeTimeUp, matchScore } from "./victory";
+
+const rng = createRng(1);
+
+/** A 4×4 plain board; the helpers below drop cities and units onto it. */
+const board = (): Tile[][] =>
+  Array.from({ length: 4 }, (_, y) =>
+    Array.from({ length: 4 }, (_, x) => ({ position: [x, y], terrain: { ...TERRAIN_TYPES.Plain }, unit: null })),
+  );
+const city = (grid: Tile[][], [x, y]: [number, number], owner: Player | null, hq?: Player) => {
+  grid[y][x].terrain = { ...TERRAIN_TYPES.City, owner, captureProgress: 0, ...(hq ? { hq } : {}) } as City;
+};
+const unit = (
+  grid: Tile[][],
+  [x, y]: [number, number],
+  type: UnitType,
+  player: Player,
+  health = UNIT_TYPES[type].health,
+) => {
+  grid[y][x].unit = { ...createUnit(type, [x, y], player, rng), health };
+};
+
+/** Both sides with one infantry and their HQ — nobody has won yet. */
+const standoff = () => {
+  const grid = board();
+  city(grid, [0, 0], "Red", "Red");
+  city(grid, [3, 3], "Blue", "Blue");
+  unit(grid, [1, 0], "Infantry", "Red");
+  unit(grid, [2, 3], "Infantry", "Blue");
+  return grid;
+};
+
+const only = (overrides: Partial<VictoryConditions>): VictoryConditions => ({
+  annihilation: false,
+  hqCapture: false,
+  cityShare: null,
+  scoreAtTimeLimit: false,
+  ...overrides,
+});
+
+describe("checkVictory", () => {
+  it("lets the match go on while no condition is met", () => {
+    expect(checkVictory(standoff(), DEFAULT_VICTORY)).toBeNull();
+  });
+
+  it("ends on annihilation only when that condition is on", () => {
+    const grid = standoff();
+    grid[3][2].unit = null;
+    expect(checkVictory(grid, DEFAULT_VICTORY)).toEqual({ winner: "Red", winReason: "elimination" });
+    expect(checkVictory(grid, only({ hqCapture: true }))).toBeNull();
+  });
+
+  it("ends when a Headquarters falls", () => {
+    const grid = standoff();
+    city(grid, [0, 0], "Blue", "Red");
+    expect(checkVictory(grid, DEFAULT_VICTORY)).toEqual({ winner: "Blue", winReason: "hq" });
+    expect(checkVictory(grid, only({ annihilation: true }))).toBeNull();
+  });
+
+  it("ends when a side holds its share of the cities", () => {
+    const grid = standoff();
+    city(grid, [1, 1], "Red");
+    city(grid, [2, 2], null);
+    expect(checkVictory(grid, only({ cityShare: 0.75 }))).toBeNull();
+    city(grid, [2, 2], "Red");
+    expect(checkVictory(grid, only({ cityShare: 0.75 }))).toEqual({ winner: "Red", winReason: "cities" });
+  });
+});
+
+describe("judgeTimeUp", () => {
+  it("goes to more cities, then to the more valuable army", () => {
+    const grid = standoff();
+    city(grid, [1, 1], "Blue");
+    expect(judgeTimeUp(grid, DEFAULT_VICTORY).winner).toBe("Blue");
+
+    const even = standoff();
+    unit(even, [2, 0], "Tank", "Red", UNIT_TYPES.Tank.health / 2);
+    const judged = judgeTimeUp(even, DEFAULT_VICTORY);
+    expect(judged.winner).toBe("Red");
+    expect(judged.unitValue.Red - judged.unitValue.Blue).toBe(UNIT_COSTS.Tank / 2);
+  });
+
+  it("goes to the higher score when scoring is on", () => {
+    const grid = standoff();
+    city(grid, [1, 1], "Blue");
+    // Four tanks are worth more than Blue's one extra city
+    const tanks: [number, number][] = [
+      [2, 0],
+      [3, 0],
+      [0, 1],
+      [0, 2],
+    ];
+    for (const at of tanks) unit(grid, at, "Tank", "Red");
+
+    const judged = judgeTimeUp(grid, only({ scoreAtTimeLimit: true }));
+    expect(judged.score).toEqual({ Red: matchScore(grid, "Red"), Blue: matchScore(grid, "Blue") });
+    expect(judged.winner).toBe("Red");
+    expect(judgeTimeUp(grid, DEFAULT_VICTORY).winner).toBe("Blue");
+  });
+
+  it("gives a dead heat to Blue", () => {
+    expect(judgeTimeUp(standoff(), DEFAULT_VICTORY).winner).toBe("Blue");
+  });
+});
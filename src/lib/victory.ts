@@ -0,0 +1,132 @@
+/**
+ * victory.ts
+ *
+ * Every way a match can end, in one place. The engine asks `checkVictory`
+ * after each action that can change the outcome (attacks and captures) and
+ * `judgeTimeUp` when the clock runs out, so the player, the AI and the
+ * simulator all win and lose by the same rules. Which conditions apply is
+ * picked in the Lobby and carried in GameState.
+ */
+
+import type { City, Player, Tile } from "../types/game";
+import { countPlayerUnits } from "./combat";
+import { UNIT_COSTS, UNIT_TYPES } from "./constants";
+
+export interface VictoryConditions {
+  /** Destroy every enemy unit. */
+  annihilation: boolean;
+  /** Capture the enemy Headquarters. */
+  hqCapture: boolean;
+  /** Hold at least this share (0–1) of all cities on the map; null = off. */
+  cityShare: number | null;
+  /** At the time limit the higher score wins, instead of cities, then unit value. */
+  scoreAtTimeLimit: boolean;
+}
+
+/** How the match was decided. */
+export type WinReason = "elimination" | "hq" | "cities" | "timeout";
+
+export const DEFAULT_VICTORY: VictoryConditions = {
+  annihilation: true,
+  hqCapture: true,
+  cityShare: null,
+  scoreAtTimeLimit: false,
+};
+
+/** City-hold thresholds offered in the Lobby. */
+export const CITY_SHARE_OPTIONS = [0.6, 0.75] as const;
+
+const CITY_SCORE = 1000; // a city counts like its capture reward in the score
+
+const otherSide = (player: Player): Player => (player === "Red" ? "Blue" : "Red");
+
+export const countCities = (grid: Tile[][], player: Player): number => {
+  let cities = 0;
+  for (const row of grid)
+    for (const tile of row) if (tile.terrain.isCity && (tile.terrain as City).owner === player) cities++;
+  return cities;
+};
+
+/** Production cost of `player`'s army, scaled by each unit's remaining health. */
+export const unitValue = (grid: Tile[][], player: Player): number => {
+  let value = 0;
+  for (const row of grid)
+    for (const tile of row)
+      if (tile.unit?.player === player)
+        value += (UNIT_COSTS[tile.unit.type] * tile.unit.health) / UNIT_TYPES[tile.unit.type].health;
+  return Math.round(value);
+};
+
+/** Score for the time-limit condition: army value plus every city held. */
+export const matchScore = (grid: Tile[][], player: Player): number =>
+  unitValue(grid, player) + countCities(grid, player) * CITY_SCORE;
+
+/** Whether `player`'s Headquarters has fallen to the enemy. */
+const lostHQ = (grid: Tile[][], player: Player): boolean => {
+  for (const row of grid) {
+    for (const tile of row) {
+      const city = tile.terrain as City;
+      if (tile.terrain.isCity && city.hq === player && city.owner !== player) return true;
+    }
+  }
+  return false;
+};
+
+const totalCities = (grid: Tile[][]): number => {
+  let cities = 0;
+  for (const row of grid) for (const tile of row) if (tile.terrain.isCity) cities++;
+  return cities;
+};
+
+/** Winner under `conditions` on this board, or null while the match goes on. */
+export const checkVictory = (
+  grid: Tile[][],
+  conditions: VictoryConditions,
+): { winner: Player; winReason: WinReason } | null => {
+  for (const player of ["Red", "Blue"] as const) {
+    const foe = otherSide(player);
+    if (conditions.hqCapture && lostHQ(grid, foe)) return { winner: player, winReason: "hq" };
+    if (conditions.annihilation && countPlayerUnits(grid, foe) === 0)
+      return { winner: player, winReason: "elimination" };
+    if (conditions.cityShare !== null) {
+      const total = totalCities(grid);
+      if (total > 0 && countCities(grid, player) / total >= conditions.cityShare)
+        return { winner: player, winReason: "cities" };
+    }
+  }
+  return null;
+};
+
+/**
+ * Time-up judgement: the higher score when `scoreAtTimeLimit` is on, else
+ * more cities, then higher unit value. A dead heat goes to Blue, who moves second.
+ */
+export const judgeTimeUp = (grid: Tile[][], conditions: VictoryConditions) => {
+  const cities = { Red: countCities(grid, "Red"), Blue: countCities(grid, "Blue") };
+  const value = { Red: unitValue(grid, "Red"), Blue: unitValue(grid, "Blue") };
+  const score = { Red: matchScore(grid, "Red"), Blue: matchScore(grid, "Blue") };
+  let winner: Player;
+  if (conditions.scoreAtTimeLimit) {
+    winner = score.Red > score.Blue ? "Red" : "Blue";
+  } else {
+    winner =
+      cities.Red !== cities.Blue
+        ? cities.Red > cities.Blue
+          ? "Red"
+          : "Blue"
+        : value.Red > value.Blue
+          ? "Red"
+          : "Blue";
+  }
+  return { winner, cities, unitValue: value, score };
+};
+
+/** One-line summary of the enabled conditions, for the HUD and Lobby. */
+export const describeVictory = (conditions: VictoryConditions): string => {
+  const parts: string[] = [];
+  if (conditions.annihilation) parts.push("destroy all enemy units");
+  if (conditions.hqCapture) parts.push("capture the enemy HQ");
+  if (conditions.cityShare !== null) parts.push(`hold ${Math.round(conditions.cityShare * 100)}% of cities`);
+  if (conditions.scoreAtTimeLimit) parts.push("highest score at the time limit");
+  return parts.length > 0 ? parts.join(" · ") : "time limit only";
+};
@@ -0,0 +1,63 @@
+/**
+ * vision.ts
+ *
+ * Fog of war. A side sees every tile within its units' vision range
+ * (UNIT_VISION, plus MOUNTAIN_VISION_BONUS when standing on a mountain) and
+ * around its own cities. Forest tiles stay hidden unless a friendly unit is
+ * adjacent, so units in woods can't be spotted from afar.
+ *
+ * Fog never changes the rules — the engine always works on the full grid.
+ * These helpers only build the *view* a side gets: the player's board and the
+ * AI's input.
+ */
+
+import type { City, Player, Tile } from "../types/game";
+import { CITY_VISION, MOUNTAIN_VISION_BONUS, UNIT_VISION } from "./constants";
+import type { GameState } from "./engine";
+
+/** visible[y][x] — whether `player` can currently see the tile. */
+export type Visibility = boolean[][];
+
+/** Vision range of the unit on `tile` (0 if the tile is empty). */
+export const visionRange = (tile: Tile): number => {
+  if (!tile.unit) return 0;
+  const bonus = tile.terrain.type === "Mountain" ? MOUNTAIN_VISION_BONUS : 0;
+  return UNIT_VISION[tile.unit.type] + bonus;
+};
+
+export const computeVisibility = (grid: Tile[][], player: Player): Visibility => {
+  const visible: Visibility = grid.map((row) => row.map(() => false));
+
+  const reveal = (cx: number, cy: number, range: number) => {
+    for (let y = Math.max(0, cy - range); y <= Math.min(grid.length - 1, cy + range); y++) {
+      for (let x = Math.max(0, cx - range); x <= Math.min(grid[y].length - 1, cx + range); x++) {
+        const dist = Math.abs(x - cx) + Math.abs(y - cy);
+        if (dist > range) continue;
+        // Forest conceals whatever is inside unless we're right next to it
+        if (grid[y][x].terrain.type === "Forest" && dist > 1) continue;
+        visible[y][x] = true;
+      }
+    }
+  };
+
+  for (const row of grid) {
+    for (const tile of row) {
+      const [x, y] = tile.position;
+      if (tile.unit?.player === player) reveal(x, y, visionRange(tile));
+      else if (tile.terrain.isCity && (tile.terrain as City).owner === player) reveal(x, y, CITY_VISION);
+    }
+  }
+  return visible;
+};
+
+/** Copy of the grid with enemy units on hidden tiles removed. */
+export const applyFog = (grid: Tile[][], visible: Visibility, player: Player): Tile[][] =>
+  grid.map((row, y) =>
+    row.map((tile, x) =>
+      tile.unit && tile.unit.player !== player && !visible[y]?.[x] ? { ...tile, unit: null } : tile,
+    ),
+  );
+
+/** The grid as `player` sees it — the full grid when fog of war is off. */
+export const viewGridFor = (state: GameState, player: Player): Tile[][] =>
+  state.fogOfWar ? applyFog(state.grid, computeVisibility(state.grid, player), player) : state.grid;
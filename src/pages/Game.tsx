@@ -1,20 +1,53 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { useLocation } from 'react-router-dom';
-import type { UnitType, Player, City, Unit, Tile } from '../types/game';
-import { computeAIAction } from '../lib/ai';
-import { calculateDamage, countPlayerUnits } from '../lib/combat';
-import { GRID_SIZE, setGridSize, COOLDOWN_DURATION, AP_REGEN_INTERVAL, AI_ACTION_INTERVAL, MAX_AP, UNIT_COSTS } from '../lib/constants';
-import { generateInitialGrid, calculateMovementRange as calcMovementRange, calculateAttackRange as calcAttackRange, findEnemiesInRange as findEnemies } from '../lib/grid';
-import { createUnit } from '../lib/units';
+import { Link, useLocation } from 'react-router-dom';
+import type { UnitType, City, Player, Unit } from '../types/game';
+import { toEngineActions, type AIAction } from '../lib/ai';
+import { createAIWorkerClient, type AIWorkerClient } from '../lib/aiWorkerClient';
+import { DEFAULT_PERSONALITY, PERSONALITIES, type PersonalityId } from '../lib/personalities';
+import { GRID_SIZE, setGridSize, applyRuleset, AP_REGEN_INTERVAL, BUILDABLE_UNITS, COOLDOWN_DURATION, INCOME_INTERVAL, AI_ACTION_INTERVAL, AI_TURN_STEP_DELAY, HINTS_PER_MATCH, MAX_AP, UNIT_COSTS, CAPTURE_REWARD, CAPTURE_THRESHOLD, CITY_INCOME } from '../lib/constants';
+import { applyAction, canPlayerAct, capturePoints, cityIncome, createGameState, isUnitReady, type ActionOutcome, type ActionResult, type GameAction, type GameMode, type GameState } from '../lib/engine';
+import { calculateMovementRange as calcMovementRange, calculateAttackRange as calcAttackRange, findEnemiesInRange as findEnemies } from '../lib/grid';
+import { resolveAttack } from '../lib/combat';
+import { describeHint, type Hint } from '../lib/hints';
+import { createRecording, recordEvent, saveLastRecording, type MatchRecording, type ReplayActor } from '../lib/replay';
+import { connectMatch, type NetClient } from '../lib/netClient';
+import type { ChatEntry, JoinMessage, JoinedMessage, RoomSettings } from '../lib/netProtocol';
+import { getRuleset } from '../lib/rulesets';
+import { createRng, randomSeed } from '../lib/rng';
+import { AUTOSAVE_ID, createSave, deleteSave, newSaveId, readSave, restoreState, writeSave, type SaveGame } from '../lib/saves';
+import { createMatchGrid } from '../lib/setup';
+import { buildThreatMap, threatHeat } from '../lib/threat';
+import { DEFAULT_VICTORY, countCities, describeVictory, matchScore, unitValue, type VictoryConditions } from '../lib/victory';
+import { applyFog, computeVisibility, viewGridFor } from '../lib/vision';
 import GameBoard3D from '../components/GameBoard3D';
 import MinimapOverlay from '../components/MinimapOverlay';
 import MapLibreBackdrop, { type MapLibreBackdropHandle } from '../components/MapLibreBackdrop';
 import { fetchRealTerrain } from '../lib/realMap';
 import type { TerrainType } from '../types/game';
 
+/** m:ss for the turn/match clock. */
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/** Why the match ended, for the end-game panel. */
+const describeWin = (state: GameState): string => {
+  const loser = state.winner === 'Red' ? 'Blue' : 'Red';
+  switch (state.winReason) {
+    case 'hq': return `${state.winner} captured ${loser}'s HQ`;
+    case 'cities': return `${state.winner} holds ${Math.round((state.victory.cityShare ?? 0) * 100)}% of the cities`;
+    case 'timeout': return state.victory.scoreAtTimeLimit
+      ? `Time ran out — score ${matchScore(state.grid, 'Red')}–${matchScore(state.grid, 'Blue')}`
+      : `Time ran out — cities ${countCities(state.grid, 'Red')}–${countCities(state.grid, 'Blue')}, unit value $${unitValue(state.grid, 'Red')}–$${unitValue(state.grid, 'Blue')}`;
+    default: return `${loser} has no units left`;
+  }
+};
+
 const DEFAULT_MAP_CENTER: [number, number] = [-73.9712, 40.7831];
 const BASE_MAP_ZOOM = 18; // zoom for a 10×10 grid — scales down for larger maps
+const RECONNECT_DELAY = 3000; // online: wait this long before rejoining after a dropped connection
 import { playAttack, playCounterAttack, playImpact, playDestroyed, playSelect, playMove, playCaptured, playVictory, playDefeat } from '../lib/sounds';
 import {
   IconSword,
@@ -25,6 +58,8 @@ import {
   IconRobot,
   IconBolt,
   IconBuildingFactory,
+  IconHourglass,
+  IconBulb,
 } from '@tabler/icons-react';
 
 // UI helper (returns JSX, so stays in component file)
@@ -42,27 +77,114 @@ const Game = () => {
   const location = useLocation();
   const lobbyState = location.state as {
     isAIEnabled?: boolean;
+    /** Two players on one device instead of Red vs the AI. */
+    hotSeat?: boolean;
     aiDifficulty?: 'easy' | 'medium' | 'hard';
+    aiPersonality?: PersonalityId;
     battleLocation?: [number, number];
     mapSize?: 10 | 20 | 30;
+    seed?: number;
+    mode?: GameMode;
+    fogOfWar?: boolean;
+    startingFunds?: number;
+    victory?: VictoryConditions;
+    ruleset?: string;
+    /** Seconds per turn (turn mode) or for the whole match (real-time); 0 = no limit. */
+    turnTimeLimit?: number;
+    /** Save slot picked in the Lobby ("Continue" or a named save). */
+    resumeSlot?: string;
+    /** Set by the Lobby per match so a reload resumes the autosave instead of restarting. */
+    matchId?: string;
+    /** Online match started in the Lobby's room: server URL, room code and our seat with its rejoin token. */
+    online?: { server: string; room: string; seat: Player; token: string };
   } | null;
-  const MAP_CENTER: [number, number] = lobbyState?.battleLocation ?? DEFAULT_MAP_CENTER;
-  const MAP_SIZE = lobbyState?.mapSize ?? 10;
-
-  const [grid, setGrid] = useState<Tile[][]>([]);
+  const online = lobbyState?.online ?? null;
+
+  // Saved match to resume: the autosave of this same match (page reload, webview
+  // resume, or a direct visit to /game), else the slot picked in the Lobby.
+  const [resumed] = useState<SaveGame | null>(() => {
+    // Online matches live on the server — there is nothing local to resume
+    if (online) return null;
+    const auto = readSave(AUTOSAVE_ID);
+    if (auto && (!lobbyState || (lobbyState.matchId && auto.matchId === lobbyState.matchId))) return auto;
+    return lobbyState?.resumeSlot ? readSave(lobbyState.resumeSlot) : null;
+  });
+  const [matchId] = useState(() => lobbyState?.matchId ?? resumed?.matchId ?? Date.now().toString(36));
+
+  // Online: the room's settings, known once the server has seated us (a guest's lobby state has none)
+  const [room, setRoom] = useState<{ code: string; settings: RoomSettings } | null>(null);
+  const settings = room?.settings;
+
+  const MAP_CENTER: [number, number] = settings?.battleLocation ?? resumed?.settings.battleLocation ?? lobbyState?.battleLocation ?? DEFAULT_MAP_CENTER;
+  const MAP_SIZE = settings?.mapSize ?? resumed?.settings.mapSize ?? lobbyState?.mapSize ?? 10;
+
+  // Match seed — drives map painting, unit IDs and AI choices so a game can be replayed
+  const [seed] = useState(() => resumed?.state.seed ?? lobbyState?.seed ?? randomSeed());
+  const mode: GameMode = resumed?.state.mode ?? lobbyState?.mode ?? 'realtime';
+  const fogOfWar = resumed?.state.fogOfWar ?? lobbyState?.fogOfWar ?? false;
+  const timeLimit = settings?.turnTimeLimit ?? resumed?.settings.turnTimeLimit ?? lobbyState?.turnTimeLimit ?? 0;
+  const victory = resumed?.state.victory ?? lobbyState?.victory ?? DEFAULT_VICTORY;
+  // Hot-seat: two people share the device and Blue is human too
+  const hotSeat = resumed?.settings.hotSeat ?? lobbyState?.hotSeat ?? false;
+
+  const rulesetId = resumed?.state.ruleset ?? lobbyState?.ruleset;
+
+  // All rule-bearing state lives in one engine GameState. Until the init effect loads this
+  // match's rule tables (module state like GRID_SIZE) and builds the board, it is an empty
+  // placeholder that names the ruleset itself (an online guest gets the room's with the first snapshot)
+  const [game, setGame] = useState<GameState>(() => {
+    const rules = getRuleset(rulesetId);
+    return createGameState([], { seed, mode, fogOfWar, victory, ruleset: rules.id, startingAP: rules.timing.startingAP });
+  });
+  const { resources, actionPoints, cooldowns: unitCooldowns } = game;
+  // From the state rather than the lobby: an online guest learns the mode from the server
+  const isTurnMode = game.mode === 'turns';
+  const ruleset = getRuleset(game.ruleset);
+  // Online: the seat the server gave us
+  const [seat, setSeat] = useState<Player>(online?.seat ?? 'Red');
+  const [opponentConnected, setOpponentConnected] = useState(false);
+  // Online: why we couldn't get into the room (shown over the board until we do)
+  const [netStatus, setNetStatus] = useState<string | null>(null);
+  // Online: the room's chat, carried over from the Lobby
+  const [chatLog, setChatLog] = useState<ChatEntry[]>([]);
+  const [chatInput, setChatInput] = useState('');
+  // Real-time hot-seat: the side whose unit or factory was touched last
+  const [controller, setController] = useState<Player>('Red');
+  // Turn-mode hot-seat: the side the device is being passed to; the board stays
+  // hidden until they confirm. A resumed match starts behind the screen too.
+  const [handoff, setHandoff] = useState<Player | null>(() => hotSeat && isTurnMode && resumed ? resumed.state.activePlayer : null);
+  // The side the local input plays: always Red against the AI, our seat online
+  const me: Player = online ? seat : !hotSeat ? 'Red' : isTurnMode ? game.activePlayer : controller;
+  /** Whether the local input may command `player`'s units and factories. */
+  const canControl = (player: Player | null) =>
+    player !== null && (online || !hotSeat ? player === me : !isTurnMode || player === game.activePlayer);
+  // The board as `me` sees it — under fog of war, enemy units outside vision are left out
+  const visibility = useMemo(() => game.fogOfWar ? computeVisibility(game.grid, me) : undefined, [game.grid, game.fogOfWar, me]);
+  const grid = useMemo(() => visibility ? applyFog(game.grid, visibility, me) : game.grid, [game.grid, visibility, me]);
+  const myIncome = cityIncome(game.grid, me);
   const [selectedUnit, setSelectedUnit] = useState<Unit | null>(null);
   const [movementRange, setMovementRange] = useState<[number, number][]>([]);
   const [attackRange, setAttackRange] = useState<[number, number][]>([]);
   const [gameStatus, setGameStatus] = useState<string>('Select a unit to act');
-  const [resources, setResources] = useState<Record<Player, number>>({ Red: 1000, Blue: 1000 });
 
-  // AP & Cooldown state
-  const [actionPoints, setActionPoints] = useState<Record<Player, number>>({ Red: 5, Blue: 5 });
-  const [unitCooldowns, setUnitCooldowns] = useState<Record<string, number>>({});
+  // Clock used for cooldown display
   const [now, setNow] = useState(Date.now());
+  // When the current turn (turn mode) or the whole match (real-time) runs out; null = no limit
+  const [deadline, setDeadline] = useState<number | null>(null);
   const [attackEvent, setAttackEvent] = useState<{ attackerPos: [number, number]; defenderPos: [number, number]; timestamp: number; hasCounter: boolean } | null>(null);
   const [isMuted, setIsMuted] = useState(false);
+  // Debug: draw the AI's threat map over the board
+  const [showThreatMap, setShowThreatMap] = useState(false);
+  // Red's attack reach as the AI sees it (through Blue's fog)
+  const threatHeatMap = useMemo(
+    () => showThreatMap ? threatHeat(buildThreatMap(viewGridFor(game, 'Blue'), 'Red')) : undefined,
+    [game, showThreatMap],
+  );
   const [terrainLoading, setTerrainLoading] = useState(true);
+  // Hint button: suggestions left this match and the one on the board
+  const [hintsUsed, setHintsUsed] = useState(resumed?.hintsUsed ?? 0);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintPending, setHintPending] = useState(false);
 
   // Action menu state: shown after moving near enemies or onto a capturable city
   const [actionMenu, setActionMenu] = useState<{
@@ -72,7 +194,7 @@ const Game = () => {
   } | null>(null);
 
   // Factory menu state: shown when clicking an owned city with no unit
-  const [factoryMenu, setFactoryMenu] = useState<{ x: number; y: number } | null>(null);
+  const [factoryMenu, setFactoryMenu] = useState<{ x: number; y: number; player: Player } | null>(null);
 
   // Screen position of the last tile click, used to position popup menus
   const [menuAnchor, setMenuAnchor] = useState<{ left: number; top: number; openAbove: boolean } | null>(null);
@@ -83,25 +205,74 @@ const Game = () => {
   };
 
   // AI state
-  const [isAIEnabled, setIsAIEnabled] = useState(lobbyState?.isAIEnabled ?? false);
-  const [aiDifficulty, setAiDifficulty] = useState<'easy' | 'medium' | 'hard'>(lobbyState?.aiDifficulty ?? 'medium');
+  const [isAIEnabled, setIsAIEnabled] = useState(!hotSeat && !online && (resumed?.settings.isAIEnabled ?? lobbyState?.isAIEnabled ?? false));
+  const [aiDifficulty, setAiDifficulty] = useState<'easy' | 'medium' | 'hard'>(resumed?.settings.aiDifficulty ?? lobbyState?.aiDifficulty ?? 'medium');
+  // Chosen in the Lobby; fixed for the match
+  const aiPersonality: PersonalityId = resumed?.settings.aiPersonality ?? lobbyState?.aiPersonality ?? DEFAULT_PERSONALITY;
+  const [saveName, setSaveName] = useState('');
 
   // MapLibre backdrop — imperative ref so camera syncs without re-renders
   const mapBackdropRef = useRef<MapLibreBackdropHandle | null>(null);
 
-  // Refs for use inside intervals (avoids stale closures)
-  const gridRef = useRef<Tile[][]>([]);
-  const apRef = useRef(actionPoints);
-  const cooldownsRef = useRef(unitCooldowns);
+  // Refs for use inside intervals (avoids stale closures). gameRef is written
+  // synchronously by dispatch so back-to-back actions never see stale state.
+  const gameRef = useRef(game);
   const aiDifficultyRef = useRef(aiDifficulty);
-  const gameOverRef = useRef(false);
-  const resourcesRef = useRef(resources);
+  // The AI draws from its own stream so player actions don't shift its choices
+  const aiRngRef = useRef(createRng(resumed?.aiRngState ?? (seed ^ 0x5bd1e995)));
+  // Event log of the current match, stored for /replay at match end and when the page is left
+  const recordingRef = useRef<MatchRecording | null>(null);
+  // Online: the server connection; local actions go through it as intents
+  const netRef = useRef<NetClient | null>(null);
 
-  useEffect(() => { gridRef.current = grid; }, [grid]);
-  useEffect(() => { apRef.current = actionPoints; }, [actionPoints]);
-  useEffect(() => { cooldownsRef.current = unitCooldowns; }, [unitCooldowns]);
   useEffect(() => { aiDifficultyRef.current = aiDifficulty; }, [aiDifficulty]);
-  useEffect(() => { resourcesRef.current = resources; }, [resources]);
+
+  /** Apply an engine action to the live game; rejected actions leave state untouched. */
+  const dispatch = useCallback((action: GameAction, actor: ReplayActor = 'player'): ActionResult => {
+    // Online the result is a prediction until the server's event confirms it
+    const result = online
+      ? netRef.current?.act(action) ?? { state: gameRef.current, outcome: null, error: 'Not connected to the server' }
+      : applyAction(gameRef.current, action);
+    if (result.outcome) {
+      gameRef.current = result.state;
+      setGame(result.state);
+      // A unit moved or fought: the suggestion was for the old board
+      if (actor !== 'system') setHint(null);
+      if (result.outcome.type === 'endTurn' && timeLimit > 0) setDeadline(Date.now() + timeLimit * 1000);
+      // Online matches record the server's confirmed events instead
+      if (recordingRef.current && !online) {
+        recordEvent(recordingRef.current, actor, action, result.outcome, Date.now());
+      }
+    }
+    return result;
+  }, [online, timeLimit]);
+
+  /** Sounds + projectile/counter animation for a resolved attack (player or AI). */
+  const animateAttack = useCallback((outcome: Extract<ActionOutcome, { type: 'attack' }>, from: [number, number], target: [number, number]) => {
+    const hasCounter = outcome.counterDamage !== null;
+    playAttack(isMuted);
+    if (outcome.defenderDestroyed) setTimeout(() => playDestroyed(isMuted), 450);
+    else setTimeout(() => playImpact(isMuted), 450);
+    if (hasCounter) {
+      if (outcome.attackerDestroyed) {
+        setTimeout(() => { playCounterAttack(isMuted); setTimeout(() => playDestroyed(isMuted), 300); }, 600);
+      } else {
+        setTimeout(() => playCounterAttack(isMuted), 600);
+      }
+    }
+    setAttackEvent({ attackerPos: from, defenderPos: target, timestamp: performance.now(), hasCounter });
+    setTimeout(() => setAttackEvent(null), hasCounter ? 1400 : 800);
+  }, [isMuted]);
+
+  /** Show the end-of-game status once the engine reports a winner. */
+  const announceWinner = useCallback((state: GameState, side: Player = me) => {
+    if (!state.winner) return;
+    setGameStatus(state.winReason === 'timeout'
+      ? `Time's up — ${state.winner} wins!`
+      : state.winReason === 'hq' ? `HQ captured — ${state.winner} wins!` : `${state.winner} wins!`);
+    if (hotSeat || state.winner === side) playVictory(isMuted);
+    else playDefeat(isMuted);
+  }, [me, hotSeat, isMuted]);
 
   // Update clock every second for cooldown display
   useEffect(() => {
@@ -109,188 +280,402 @@ const Game = () => {
     return () => clearInterval(interval);
   }, []);
 
-  // AP regeneration: +1 AP every 60 seconds
+  // Time limit: end the turn (turn mode) or the match (real-time) when the clock runs out
+  useEffect(() => {
+    // A hot-seat turn clock waits until the next player has the device; online the server keeps time
+    if (deadline === null || now < deadline || gameRef.current.winner || handoff || online) return;
+    if (isTurnMode) {
+      const { outcome } = dispatch({ type: 'endTurn', timedOut: true }, 'system');
+      if (outcome?.type === 'endTurn') {
+        setSelectedUnit(null);
+        setMovementRange([]);
+        setAttackRange([]);
+        setActionMenu(null);
+        setFactoryMenu(null);
+        setGameStatus(`Time's up — ${outcome.player}'s turn`);
+        if (hotSeat) setHandoff(outcome.player);
+      }
+    } else {
+      const { state } = dispatch({ type: 'timeUp' }, 'system');
+      setDeadline(null);
+      announceWinner(state);
+    }
+  }, [now, deadline, isTurnMode, hotSeat, handoff, online, dispatch, announceWinner]);
+
+  // AP regeneration: +1 AP every AP_REGEN_INTERVAL (real-time only; online the server ticks)
   useEffect(() => {
+    if (isTurnMode || online) return;
     const interval = setInterval(() => {
-      if (gameOverRef.current) return;
-      setActionPoints(prev => ({
-        Red: Math.min(MAX_AP, prev.Red + 1),
-        Blue: Math.min(MAX_AP, prev.Blue + 1),
-      }));
+      if (gameRef.current.winner) return;
+      dispatch({ type: 'regenAP' }, 'system');
     }, AP_REGEN_INTERVAL);
     return () => clearInterval(interval);
-  }, []);
+  }, [isTurnMode, online, dispatch]);
+
+  // City income: owned cities pay out every INCOME_INTERVAL (real-time only; online the server ticks)
+  useEffect(() => {
+    if (isTurnMode || online) return;
+    const interval = setInterval(() => {
+      if (gameRef.current.winner || gameRef.current.grid.length === 0) return;
+      dispatch({ type: 'income' }, 'system');
+    }, INCOME_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isTurnMode, online, dispatch]);
+
+  // What the page was opened with. The init effect runs once, so it reads these rather than the
+  // live values — an online room's settings arrive after joining and mustn't start it over
+  const openedWithRef = useRef({ online, resumed, mapSize: MAP_SIZE, center: MAP_CENTER, rulesetId });
 
-  // Initialize game — fetch real-world terrain first, then build the grid
+  // Initialize game — join the online room, resume a save, or fetch real-world terrain first, then build the grid
   useEffect(() => {
-    setGridSize(MAP_SIZE);
+    const { online, resumed, mapSize, center, rulesetId } = openedWithRef.current;
+    setGridSize(mapSize);
+    applyRuleset(getRuleset(rulesetId));
+    if (online) return connectOnline(online.server, { type: 'join', room: online.room, seat: online.seat, token: online.token });
+    if (resumed) {
+      startMatch(restoreState(resumed, Date.now()), resumed.clockRemaining);
+      setGameStatus(`Resumed "${resumed.name}"`);
+      setTerrainLoading(false);
+      return;
+    }
     let cancelled = false;
     (async () => {
       setTerrainLoading(true);
-      const terrain: TerrainType[][] | null = await fetchRealTerrain(MAP_CENTER[0], MAP_CENTER[1], MAP_SIZE);
+      const terrain: TerrainType[][] | null = await fetchRealTerrain(center[0], center[1], mapSize);
       if (!cancelled) {
         initializeGame(terrain ?? undefined);
         setTerrainLoading(false);
       }
     })();
     return () => { cancelled = true; };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // AI action interval
-  const tryAIAction = useCallback(() => {
-    if (gameOverRef.current) return;
-
-    const action = computeAIAction({
-      grid: gridRef.current,
-      actionPoints: apRef.current.Blue,
-      cooldowns: cooldownsRef.current,
+  // The AI thinks in a worker so it never stalls the 3D board
+  const aiWorkerRef = useRef<AIWorkerClient | null>(null);
+  const aiBusyRef = useRef(false);
+  useEffect(() => () => aiWorkerRef.current?.terminate(), []);
+
+  /**
+   * Ask the worker for the AI's next decision. Resolves null when there is
+   * nothing to do — or when the game moved on while the AI was thinking,
+   * since the decision was made for a board that no longer exists.
+   */
+  const requestAIAction = useCallback(async (): Promise<AIAction | null> => {
+    aiWorkerRef.current ??= createAIWorkerClient();
+    const state = gameRef.current;
+    const response = await aiWorkerRef.current.decide({
+      state,
+      player: 'Blue',
       difficulty: aiDifficultyRef.current,
-      funds: resourcesRef.current.Blue,
+      personality: aiPersonality,
+      now: Date.now(),
+      rngState: aiRngRef.current.state(),
     });
-
-    if (!action) return;
-
-    setActionPoints(prev => ({ ...prev, Blue: prev.Blue - 1 }));
-    setUnitCooldowns(prev => ({ ...prev, [action.unit.id]: Date.now() + COOLDOWN_DURATION }));
-
-    if (action.type === 'produce') {
-      setGrid(action.newGrid);
-      setResources(prev => ({ ...prev, Blue: prev.Blue - action.cost }));
-      setGameStatus(`AI produced ${action.unitType} for $${action.cost}`);
-      return;
+    if (gameRef.current !== state) return null;
+    // Continue the AI's RNG sequence from where the worker left it
+    aiRngRef.current = createRng(response.rngState);
+    return response.action;
+  }, [aiPersonality]);
+
+  /**
+   * Hint button: the Hard planner picks Red's best action (through Red's fog)
+   * and the board highlights it. A hint only counts once it's shown — if the
+   * board changed while thinking, the player can simply ask again.
+   */
+  const requestHint = async () => {
+    if (hintPending || hintsUsed >= HINTS_PER_MATCH) return;
+    aiWorkerRef.current ??= createAIWorkerClient();
+    const state = gameRef.current;
+    setHintPending(true);
+    try {
+      const { action } = await aiWorkerRef.current.decide({
+        state,
+        player: me,
+        difficulty: 'hard',
+        personality: DEFAULT_PERSONALITY,
+        now: Date.now(),
+        // Its own stream, so asking for a hint never changes what the AI does
+        rngState: (seed ^ 0x68e31da4 ^ hintsUsed) >>> 0,
+      });
+      if (gameRef.current.grid !== state.grid) {
+        setGameStatus('The board changed — ask for the hint again');
+        return;
+      }
+      const next = describeHint({ ...state, grid: viewGridFor(state, me) }, action);
+      setHint(next);
+      setHintsUsed(n => n + 1);
+      setGameStatus(`Hint: ${next.text}`);
+    } catch (err) {
+      console.warn('[hint] decision failed:', err);
+      setGameStatus('Hint unavailable right now');
+    } finally {
+      setHintPending(false);
     }
+  };
 
-    if (action.type === 'attack') {
-      const defenderAfter = action.newGrid[action.targetY][action.targetX].unit;
-
-      // Counter-attack: if the Red defender survived and is close-range, it retaliates
-      let didCounter = false;
-      if (defenderAfter && defenderAfter.attackRange === 1) {
-        const [ax, ay] = action.unit.position;
-        const distance = Math.abs(action.targetX - ax) + Math.abs(action.targetY - ay);
-        if (distance <= 1) {
-          didCounter = true;
-          const attackerTerrain = action.newGrid[ay][ax].terrain;
-          const counterDamage = calculateDamage(defenderAfter, action.unit, attackerTerrain);
-          const blueUnit = action.newGrid[ay][ax].unit;
-          if (blueUnit) {
-            const newHealth = blueUnit.health - counterDamage;
-            if (newHealth <= 0) {
-              action.newGrid[ay][ax].unit = null;
-              setTimeout(() => { playCounterAttack(isMuted); setTimeout(() => playDestroyed(isMuted), 300); }, 600);
-              setGameStatus(`AI ${action.unit.type} attacked but was destroyed by counter-attack!`);
-            } else {
-              action.newGrid[ay][ax].unit = { ...blueUnit, health: newHealth };
-              setTimeout(() => playCounterAttack(isMuted), 600);
-              setGameStatus(`AI ${action.unit.type} attacked and took ${counterDamage} counter-damage!`);
-            }
-          }
+  // AI action interval
+  // Resolves true when the AI made a move
+  const tryAIAction = useCallback(async (): Promise<boolean> => {
+    if (gameRef.current.winner) return false;
+
+    aiBusyRef.current = true;
+    const action = await requestAIAction()
+      .catch((err: unknown) => {
+        console.warn('[ai] decision failed:', err);
+        return null;
+      })
+      .finally(() => { aiBusyRef.current = false; });
+
+    if (!action) return false;
+
+    // Combos (move + attack / capture) run as consecutive engine actions
+    let acted = false;
+    for (const step of toEngineActions(action)) {
+      const { state, outcome } = dispatch(step, 'ai');
+      if (!outcome) break;
+      acted = true;
+
+      if (outcome.type === 'produce') {
+        setGameStatus(`AI produced ${outcome.unit.type} for $${outcome.cost}`);
+      } else if (outcome.type === 'attack' && step.type === 'attack') {
+        animateAttack(outcome, step.from, step.target);
+        if (outcome.attackerDestroyed) {
+          setGameStatus(`AI ${outcome.attacker.type} attacked but was destroyed by counter-attack!`);
+        } else if (outcome.counterDamage !== null) {
+          setGameStatus(`AI ${outcome.attacker.type} attacked and took ${outcome.counterDamage} counter-damage!`);
+        } else {
+          setGameStatus(`AI ${outcome.attacker.type} attacked!`);
         }
+        announceWinner(state);
+      } else if (outcome.type === 'capture') {
+        setGameStatus(outcome.captured
+          ? `AI captured ${outcome.hq ? 'your HQ' : 'a city'}!`
+          : `AI capturing ${(state.grid[outcome.unit.position[1]][outcome.unit.position[0]].terrain as City).hq ? 'your HQ' : 'a city'}: ${CAPTURE_THRESHOLD - outcome.progress} capture points left`);
+        announceWinner(state);
+      } else if (outcome.type === 'move') {
+        setGameStatus(`AI ${outcome.unit.type} moved`);
       }
-
-      if (!didCounter) {
-        setGameStatus(`AI ${action.unit.type} attacked!`);
-      }
-
-      setGrid(action.newGrid);
-      playAttack(isMuted);
-      setAttackEvent({ attackerPos: action.unit.position, defenderPos: [action.targetX, action.targetY], timestamp: performance.now(), hasCounter: didCounter });
-      setTimeout(() => setAttackEvent(null), didCounter ? 1400 : 800);
-      if (!defenderAfter) setTimeout(() => playDestroyed(isMuted), 450);
-      else if (!didCounter) setTimeout(() => playImpact(isMuted), 450);
-      // Check win conditions
-      if (countPlayerUnits(action.newGrid, 'Red') === 0) {
-        setGameStatus('Blue wins!');
-        gameOverRef.current = true;
-      }
-      if (countPlayerUnits(action.newGrid, 'Blue') === 0) {
-        setGameStatus('Red wins!');
-        gameOverRef.current = true;
-        playVictory(isMuted);
-      }
-    } else {
-      setGrid(action.newGrid);
-      setGameStatus(`AI ${action.unit.type} moved`);
     }
-  }, []);
+    return acted;
+  }, [requestAIAction, dispatch, animateAttack, announceWinner]);
 
   useEffect(() => {
-    if (!isAIEnabled) return;
-    const interval = setInterval(tryAIAction, AI_ACTION_INTERVAL);
+    if (!isAIEnabled || isTurnMode) return;
+    const interval = setInterval(() => {
+      // Still thinking about the last tick
+      if (!aiBusyRef.current) void tryAIAction();
+    }, AI_ACTION_INTERVAL);
     return () => clearInterval(interval);
-  }, [isAIEnabled, tryAIAction]);
-
-  /** Find the nearest passable (non-water), unoccupied tile in the search area. */
-  const findPassableTile = (grid: Tile[][], prefX: number, prefY: number): [number, number] => {
-    for (let r = 0; r <= 4; r++) {
-      for (let dy = -r; dy <= r; dy++) {
-        for (let dx = -r; dx <= r; dx++) {
-          if (Math.abs(dx) + Math.abs(dy) !== r) continue; // ring only
-          const nx = prefX + dx, ny = prefY + dy;
-          if (nx < 0 || nx >= GRID_SIZE || ny < 0 || ny >= GRID_SIZE) continue;
-          const t = grid[ny][nx].terrain.type;
-          if (t !== 'Mountain' && t !== 'Water' && !grid[ny][nx].unit) {
-            return [nx, ny];
-          }
-        }
+  }, [isAIEnabled, isTurnMode, tryAIAction]);
+
+  // Turn mode: when Blue's turn starts, the AI plays actions one by one, then ends its turn
+  useEffect(() => {
+    if (!isAIEnabled || !isTurnMode || game.activePlayer !== 'Blue' || game.winner || terrainLoading) return;
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const acted = await tryAIAction();
+      // Acting changed the state — this effect runs again for the next action
+      if (acted || cancelled) return;
+      const { outcome } = dispatch({ type: 'endTurn' }, 'ai');
+      if (outcome?.type === 'endTurn') setGameStatus(`Turn ${outcome.turn} — your move (+$${outcome.income})`);
+    }, AI_TURN_STEP_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [game, isAIEnabled, isTurnMode, terrainLoading, tryAIAction, dispatch]);
+
+  /**
+   * Online: take our seat in the room's match and let the server's snapshots
+   * and events drive the board. Returns the effect cleanup.
+   */
+  const connectOnline = (server: string, join: JoinMessage) => {
+    let cancelled = false;
+    let joined: JoinedMessage | null = null;
+    let awaitingHistory = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const clearSelection = () => {
+      setSelectedUnit(null);
+      setMovementRange([]);
+      setAttackRange([]);
+      setActionMenu(null);
+      setFactoryMenu(null);
+    };
+
+    /** Status text, sounds and animation for the opponent's confirmed actions. */
+    const showRemote = (action: GameAction, outcome: ActionOutcome, state: GameState, side: Player) => {
+      if (outcome.type === 'attack' && action.type === 'attack') {
+        animateAttack(outcome, action.from, action.target);
+        const { attacker, defender } = outcome;
+        setGameStatus(outcome.defenderDestroyed
+          ? `${attacker.player} ${attacker.type} destroyed your ${defender.type}!`
+          : `${attacker.player} ${attacker.type} attacked your ${defender.type}!`);
+      } else if (outcome.type === 'capture') {
+        if (outcome.captured) playCaptured(isMuted);
+        setGameStatus(outcome.captured
+          ? `${outcome.unit.player} captured ${outcome.hq ? 'your HQ' : 'a city'}!`
+          : `${outcome.unit.player} is capturing a city: ${CAPTURE_THRESHOLD - outcome.progress} capture points left`);
+      } else if (outcome.type === 'produce') {
+        setGameStatus(`${outcome.unit.player} produced ${outcome.unit.type}`);
+      } else if (outcome.type === 'move') {
+        setGameStatus(`${outcome.unit.player} ${outcome.unit.type} moved`);
+      } else if (outcome.type === 'endTurn') {
+        clearSelection();
+        setGameStatus(`${action.type === 'endTurn' && action.timedOut ? "Time's up — " : ''}Turn ${outcome.turn} — ${outcome.player === side ? 'your move' : `${outcome.player}'s turn`} (+$${outcome.income})`);
+      } else if (outcome.type === 'timeUp') {
+        setDeadline(null);
       }
-    }
-    return [prefX, prefY]; // fallback
-  };
+      announceWinner(state, side);
+    };
 
-  const initializeGame = (terrainOverride?: TerrainType[][]) => {
-    const initialGrid = generateInitialGrid(terrainOverride);
-
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let x = 0; x < GRID_SIZE; x++) {
-        if (initialGrid[y][x].terrain.type === 'City') {
-          initialGrid[y][x].terrain = {
-            ...initialGrid[y][x].terrain,
-            owner: null,
-            captureProgress: 0,
-          } as City;
+    netRef.current = connectMatch(server, join, {
+      onJoined: (message) => {
+        joined = message;
+        awaitingHistory = true;
+        setSeat(message.player);
+        setRoom({ code: message.room, settings: message.settings });
+        setNetStatus(null);
+        setGameStatus(`Room ${message.room} — you play ${message.player}`);
+      },
+      onSnapshot: (state, clockRemaining) => {
+        gameRef.current = state;
+        setGame(state);
+        clearSelection();
+        setDeadline(clockRemaining !== undefined ? Date.now() + clockRemaining : null);
+        // Record from the latest snapshot — the events before it were never seen here.
+        // Under fog of war we only get our view, which can't replay the hidden moves
+        recordingRef.current = state.fogOfWar ? null : createRecording(state, {
+          mapSize: state.grid.length,
+          battleLocation: joined?.settings.battleLocation ?? DEFAULT_MAP_CENTER,
+          startedAt: Date.now(),
+        });
+        if (recordingRef.current) saveLastRecording(recordingRef.current);
+        setTerrainLoading(false);
+      },
+      onState: (state) => {
+        gameRef.current = state;
+        setGame(state);
+      },
+      onEvent: (event, outcome, state, own) => {
+        if (!joined) return;
+        // Fog of war hid it: all we learn is the new view (and maybe that the match is over)
+        if (!event.action || !outcome) {
+          announceWinner(state, joined.player);
+          return;
         }
-      }
-    }
+        if (recordingRef.current) recordEvent(recordingRef.current, event.player ? 'player' : 'system', event.action, outcome, Date.now());
+        const limit = joined.settings.turnTimeLimit;
+        if (outcome.type === 'endTurn' && limit > 0) setDeadline(Date.now() + limit * 1000);
+        // Our own actions were shown when they were predicted
+        if (!own) showRemote(event.action, outcome, state, joined.player);
+      },
+      onRejected: (error) => {
+        clearSelection();
+        setGameStatus(`Server rejected that: ${error}`);
+      },
+      onPresence: (connected) => {
+        if (joined) setOpponentConnected(connected[joined.player === 'Red' ? 'Blue' : 'Red']);
+      },
+      onChat: (entries) => {
+        // The first chat after (re)joining is the whole history
+        const history = awaitingHistory;
+        awaitingHistory = false;
+        setChatLog(log => history ? entries : [...log, ...entries]);
+      },
+      onError: (message) => {
+        if (joined) setGameStatus(message);
+        else setNetStatus(message);
+      },
+      onClose: () => {
+        if (cancelled) return;
+        if (!joined) {
+          setNetStatus(`Can't reach the match server at ${server}`);
+          return;
+        }
+        setGameStatus('Connection lost — reconnecting…');
+        retry = setTimeout(() => netRef.current?.reconnect(), RECONNECT_DELAY);
+      },
+    });
 
-    // Assign owned cities — if none exist in the start zones, create one on the
-    // nearest passable tile so the factory mechanic always works.
-    const ensureCity = (zone: 'top' | 'bottom', owner: Player) => {
-      const yRange = zone === 'top' ? [0, 2] : [GRID_SIZE - 3, GRID_SIZE - 1];
-      for (let y = yRange[0]; y <= yRange[1]; y++)
-        for (let x = 0; x < GRID_SIZE; x++)
-          if (initialGrid[y][x].terrain.type === 'City') {
-            (initialGrid[y][x].terrain as City).owner = owner;
-            return;
-          }
-      // No city found — convert first passable tile in zone
-      const [cx, cy] = findPassableTile(initialGrid, 2, zone === 'top' ? 1 : GRID_SIZE - 2);
-      initialGrid[cy][cx].terrain = { type: 'City', defenseBonus: 20, movementCost: 1, isCity: true, owner, captureProgress: 0 } as City;
+    return () => {
+      cancelled = true;
+      clearTimeout(retry);
+      netRef.current?.close();
+      netRef.current = null;
     };
-    ensureCity('top', 'Red');
-    ensureCity('bottom', 'Blue');
+  };
 
-    // Place units on passable tiles near their preferred start positions
-    const place = (type: UnitType, prefX: number, prefY: number, player: Player) => {
-      const [x, y] = findPassableTile(initialGrid, prefX, prefY);
-      initialGrid[y][x].unit = createUnit(type, [x, y], player);
-    };
+  const initializeGame = (terrainOverride?: TerrainType[][]) => {
+    const rng = createRng(seed);
+    const initialGrid = createMatchGrid(rng, terrainOverride);
+    startMatch(createGameState(initialGrid, { seed, rngState: rng.state(), mode, fogOfWar, victory, funds: lobbyState?.startingFunds }));
+  };
+
+  /** Install a fresh or restored state, start its clock and start recording from it. */
+  const startMatch = (initialState: GameState, clockRemaining?: number) => {
+    gameRef.current = initialState;
+    setGame(initialState);
+    if (timeLimit > 0) setDeadline(Date.now() + (clockRemaining ?? timeLimit * 1000));
+    recordingRef.current = createRecording(initialState, {
+      mapSize: MAP_SIZE,
+      battleLocation: MAP_CENTER,
+      startedAt: Date.now(),
+    });
+    saveLastRecording(recordingRef.current);
+  };
 
-    place('Infantry',  2, 1, 'Red');
-    place('Tank',      1, 2, 'Red');
-    place('Artillery', 2, 3, 'Red');
-    place('Infantry',  4, 1, 'Red');
-    place('Infantry',  5, 2, 'Red');
+  // --- Save slots ---
 
-    place('Infantry',  GRID_SIZE - 3, GRID_SIZE - 2, 'Blue');
-    place('Tank',      GRID_SIZE - 2, GRID_SIZE - 3, 'Blue');
-    place('Artillery', GRID_SIZE - 3, GRID_SIZE - 4, 'Blue');
-    place('Infantry',  GRID_SIZE - 5, GRID_SIZE - 2, 'Blue');
-    place('Infantry',  GRID_SIZE - 6, GRID_SIZE - 3, 'Blue');
+  const buildSave = useCallback((id: string, name: string, state: GameState) => createSave(id, name, state, {
+    settings: { isAIEnabled, aiDifficulty, aiPersonality, battleLocation: MAP_CENTER, mapSize: MAP_SIZE, turnTimeLimit: timeLimit, hotSeat },
+    aiRngState: aiRngRef.current.state(),
+    matchId,
+    clockRemaining: deadline !== null ? Math.max(0, deadline - Date.now()) : undefined,
+    hintsUsed,
+  }, Date.now()), [isAIEnabled, aiDifficulty, aiPersonality, MAP_CENTER, MAP_SIZE, timeLimit, hotSeat, matchId, deadline, hintsUsed]);
 
-    setGrid(initialGrid);
-    gameOverRef.current = false;
+  // Store the replay when the match ends, the page is hidden or the game screen closes — each
+  // save writes the whole log, so not after every action
+  useEffect(() => {
+    if (game.winner && recordingRef.current) saveLastRecording(recordingRef.current);
+  }, [game.winner]);
+
+  useEffect(() => {
+    const save = () => { if (recordingRef.current) saveLastRecording(recordingRef.current); };
+    const onVisibility = () => { if (document.visibilityState === 'hidden') save(); };
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('pagehide', save);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('pagehide', save);
+      save();
+    };
+  }, []);
+
+  // Autosave after every change and whenever the page is hidden (reload, webview suspend)
+  useEffect(() => {
+    if (online || terrainLoading || game.grid.length === 0) return;
+    if (game.winner) {
+      deleteSave(AUTOSAVE_ID);
+      return;
+    }
+    const autosave = () => writeSave(buildSave(AUTOSAVE_ID, 'Autosave', game));
+    const onVisibility = () => { if (document.visibilityState === 'hidden') autosave(); };
+    autosave();
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('pagehide', autosave);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('pagehide', autosave);
+    };
+  }, [game, terrainLoading, online, buildSave]);
+
+  const handleSaveGame = () => {
+    const name = saveName.trim() || `Save ${new Date().toLocaleString()}`;
+    writeSave(buildSave(newSaveId(), name, gameRef.current));
+    setSaveName('');
+    setGameStatus(`Saved "${name}"`);
   };
 
   // --- Cooldown helpers ---
@@ -321,19 +706,31 @@ const Game = () => {
       return;
     }
 
-    if (unit.player !== 'Red') {
-      setGameStatus('You can only control Red units');
+    if (!canControl(unit.player)) {
+      setGameStatus(hotSeat ? `It's ${game.activePlayer}'s turn` : `You can only control ${me} units`);
       return;
     }
+    if (hotSeat && !isTurnMode) setController(unit.player);
 
-    if (isUnitOnCooldown(unit.id)) {
-      setGameStatus(`Cooldown: ${getCooldownRemaining(unit.id)}s remaining`);
-      return;
-    }
+    if (isTurnMode) {
+      if (game.activePlayer !== unit.player) {
+        setGameStatus(`Wait for ${game.activePlayer}'s turn to finish`);
+        return;
+      }
+      if (!isUnitReady(game, unit, now)) {
+        setGameStatus('Unit already acted this turn');
+        return;
+      }
+    } else {
+      if (isUnitOnCooldown(unit.id)) {
+        setGameStatus(`Cooldown: ${getCooldownRemaining(unit.id)}s remaining`);
+        return;
+      }
 
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP! Wait for regeneration');
-      return;
+      if (actionPoints[unit.player] <= 0) {
+        setGameStatus('No AP! Wait for regeneration');
+        return;
+      }
     }
 
     setSelectedUnit(unit);
@@ -359,7 +756,7 @@ const Game = () => {
     setAttackRange(atkRange);
 
     if (moveRange.length > 0 || atkRange.length > 0) {
-      setGameStatus('Move or attack (each costs 1 AP)');
+      setGameStatus(isTurnMode ? 'Move or attack' : 'Move or attack (each costs 1 AP)');
     } else {
       setGameStatus('No valid moves or attacks');
     }
@@ -375,14 +772,15 @@ const Game = () => {
       const tile = grid[y]?.[x];
       if (tile && tile.terrain.isCity && !tile.unit) {
         const city = tile.terrain as City;
-        if (city.owner === 'Red') {
-          setFactoryMenu({ x, y });
-          setGameStatus('Select a unit to produce');
+        if (city.owner && canControl(city.owner) && canPlayerAct(game, city.owner)) {
+          if (hotSeat && !isTurnMode) setController(city.owner);
+          setFactoryMenu({ x, y, player: city.owner });
+          setGameStatus(`Select a unit to produce${hotSeat ? ` for ${city.owner}` : ''}`);
           return;
         }
       }
 
-      if (grid[y][x].unit?.player === 'Red') {
+      if (canControl(grid[y][x].unit?.player ?? null)) {
         handleUnitSelect(x, y);
       }
       return;
@@ -400,8 +798,8 @@ const Game = () => {
       return;
     }
 
-    // Select another Red unit
-    if (grid[y][x].unit?.player === 'Red') {
+    // Select another of your units
+    if (canControl(grid[y][x].unit?.player ?? null)) {
       handleUnitSelect(x, y);
       return;
     }
@@ -415,58 +813,30 @@ const Game = () => {
   // --- Move (costs 1 AP, starts cooldown) ---
 
   const moveUnit = (unit: Unit, x: number, y: number) => {
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP!');
+    const nowMs = Date.now();
+    const from = unit.position;
+
+    const moved = dispatch({ type: 'move', from, to: [x, y], now: nowMs });
+    if (!moved.outcome) {
+      setGameStatus(moved.error ?? 'Cannot move there');
       return;
     }
+    // The engine lets the unit attack, capture or wait from here until its side does anything else
+    const updatedGrid = viewGridFor(moved.state, unit.player);
+    const updatedUnit = updatedGrid[y][x].unit!;
+    const destTile = updatedGrid[y][x];
+    const canCapture = updatedUnit.type === 'Infantry' && !!destTile.terrain.isCity &&
+      (!(destTile.terrain as City).owner || (destTile.terrain as City).owner !== updatedUnit.player);
+    const nearbyEnemies = findEnemies(updatedUnit, x, y, updatedGrid);
+    const hasFollowUp = canCapture || nearbyEnemies.length > 0;
 
     playMove(isMuted);
-    const updatedGrid = [...grid];
-    const [oldX, oldY] = unit.position;
-    updatedGrid[oldY][oldX].unit = null;
-
-    // Reset city capture progress if moving away
-    const oldTile = grid[oldY][oldX];
-    if (oldTile.terrain.isCity) {
-      const city = oldTile.terrain as City;
-      if (city.owner !== unit.player && city.captureProgress > 0) {
-        city.captureProgress = 0;
-        updatedGrid[oldY][oldX].terrain = city;
-      }
-    }
-
-    const updatedUnit = { ...unit, position: [x, y] as [number, number] };
-    updatedGrid[y][x].unit = updatedUnit;
-
-    setGrid(updatedGrid);
-    setActionPoints(prev => ({ ...prev, Red: prev.Red - 1 }));
     setSelectedUnit(null);
     setMovementRange([]);
     setAttackRange([]);
     centerViewportOn(x, y);
 
-    // Check for actions after moving: capture city or attack nearby enemies
-    const destTile = updatedGrid[y][x];
-    const canCapture = updatedUnit.type === 'Infantry' && !!destTile.terrain.isCity &&
-      (!(destTile.terrain as City).owner || (destTile.terrain as City).owner !== updatedUnit.player);
-
-    // Find enemies in attack range from new position (use updatedGrid)
-    const nearbyEnemies: { unit: Unit; x: number; y: number }[] = [];
-    if (updatedUnit.attackRange > 0) {
-      for (let dy = -updatedUnit.attackRange; dy <= updatedUnit.attackRange; dy++) {
-        for (let dx = -updatedUnit.attackRange; dx <= updatedUnit.attackRange; dx++) {
-          const nx = x + dx, ny2 = y + dy;
-          if (nx < 0 || nx >= GRID_SIZE || ny2 < 0 || ny2 >= GRID_SIZE) continue;
-          if (Math.abs(dx) + Math.abs(dy) > updatedUnit.attackRange) continue;
-          const target = updatedGrid[ny2]?.[nx]?.unit;
-          if (target && target.player !== updatedUnit.player) {
-            nearbyEnemies.push({ unit: target, x: nx, y: ny2 });
-          }
-        }
-      }
-    }
-
-    if (canCapture || nearbyEnemies.length > 0) {
+    if (hasFollowUp) {
       setActionMenu({ unit: updatedUnit, x, y, justMoved: true, canCapture, enemies: nearbyEnemies });
       setGameStatus(canCapture && nearbyEnemies.length > 0
         ? 'Capture, attack, or wait?'
@@ -474,8 +844,6 @@ const Game = () => {
       return;
     }
 
-    // No actions available — start cooldown
-    setUnitCooldowns(prev => ({ ...prev, [unit.id]: Date.now() + COOLDOWN_DURATION }));
     setGameStatus(`${unit.type} moved`);
   };
 
@@ -483,38 +851,21 @@ const Game = () => {
 
   const handleCapture = () => {
     if (!actionMenu) return;
-    const { unit, x, y } = actionMenu;
+    const { x, y } = actionMenu;
 
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP to capture! Wait for regeneration');
+    const { state, outcome, error } = dispatch({ type: 'capture', at: [x, y], now: Date.now() });
+    if (!outcome || outcome.type !== 'capture') {
+      setGameStatus(error ?? 'Cannot capture');
       return;
     }
 
-    const updatedGrid = [...grid];
-    const city = updatedGrid[y][x].terrain as City;
-
-    // Reset progress if switching ownership
-    if (city.owner && city.owner !== unit.player) {
-      city.captureProgress = 0;
-    }
-
-    const captureAmount = Math.floor(unit.health / 10);
-    city.captureProgress += captureAmount;
-
-    if (city.captureProgress >= 20) {
-      city.owner = unit.player;
-      city.captureProgress = 0;
-      setResources(prev => ({ ...prev, [unit.player]: prev[unit.player] + 1000 }));
+    if (outcome.captured) {
       playCaptured(isMuted);
-      setGameStatus(`${unit.player} captured a city! +$1000`);
+      setGameStatus(`${outcome.unit.player} captured ${outcome.hq ? 'the enemy HQ' : 'a city'}! +$${CAPTURE_REWARD}`);
+      announceWinner(state);
     } else {
-      setGameStatus(`Capturing: ${city.captureProgress}/20`);
+      setGameStatus(`Capturing: ${CAPTURE_THRESHOLD - outcome.progress} capture points left — stay on the city`);
     }
-
-    updatedGrid[y][x].terrain = city;
-    setGrid(updatedGrid);
-    setActionPoints(prev => ({ ...prev, Red: prev.Red - 1 }));
-    setUnitCooldowns(prev => ({ ...prev, [unit.id]: Date.now() + COOLDOWN_DURATION }));
     setActionMenu(null);
   };
 
@@ -522,39 +873,26 @@ const Game = () => {
 
   const handleBuyUnit = (unitType: UnitType) => {
     if (!factoryMenu) return;
-    const { x, y } = factoryMenu;
-    const cost = UNIT_COSTS[unitType];
+    const { x, y, player } = factoryMenu;
 
-    if (resources.Red < cost) {
-      setGameStatus(`Not enough funds! Need $${cost}`);
+    const { outcome, error } = dispatch({ type: 'produce', player, unitType, at: [x, y], now: Date.now() });
+    if (!outcome || outcome.type !== 'produce') {
+      setGameStatus(error ?? 'Cannot produce here');
       return;
     }
 
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP to produce unit!');
-      return;
-    }
-
-    const updatedGrid = [...grid];
-    const newUnit = createUnit(unitType, [x, y], 'Red');
-    updatedGrid[y][x].unit = newUnit;
-
-    setGrid(updatedGrid);
-    setResources(prev => ({ ...prev, Red: prev.Red - cost }));
-    setActionPoints(prev => ({ ...prev, Red: prev.Red - 1 }));
-    setUnitCooldowns(prev => ({ ...prev, [newUnit.id]: Date.now() + COOLDOWN_DURATION }));
     setFactoryMenu(null);
-    setGameStatus(`Produced ${unitType} for $${cost}`);
+    setGameStatus(`Produced ${unitType} for $${outcome.cost}`);
   };
 
   const handleWait = () => {
     if (!actionMenu) return;
-    const { unit, justMoved } = actionMenu;
+    const { unit, x, y, justMoved } = actionMenu;
     setActionMenu(null);
 
     if (justMoved) {
-      // Unit already spent AP on movement — start cooldown
-      setUnitCooldowns(prev => ({ ...prev, [unit.id]: Date.now() + COOLDOWN_DURATION }));
+      // The move already used the unit up; waiting just gives up its follow-up
+      dispatch({ type: 'wait', at: [x, y], now: Date.now() });
       setGameStatus(`${unit.type} is waiting`);
     } else {
       // Unit was already here — show move/attack options instead
@@ -563,166 +901,94 @@ const Game = () => {
       setSelectedUnit(unit);
       setMovementRange(moveRange);
       setAttackRange(atkRange);
-      setGameStatus('Move or attack (each costs 1 AP)');
+      setGameStatus(isTurnMode ? 'Move or attack' : 'Move or attack (each costs 1 AP)');
     }
   };
 
-  const handleAttackFromMenu = (enemyX: number, enemyY: number) => {
-    if (!actionMenu) return;
-    const { unit, justMoved } = actionMenu;
-
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP to attack!');
-      return;
+  /** Run a player attack through the engine and report the result. */
+  const performAttack = (from: [number, number], target: [number, number]): boolean => {
+    const { state, outcome, error } = dispatch({ type: 'attack', from, target, now: Date.now() });
+    if (!outcome || outcome.type !== 'attack') {
+      setGameStatus(error ?? 'Cannot attack');
+      return false;
     }
 
-    const updatedGrid = [...grid];
-    const defender = updatedGrid[enemyY][enemyX].unit!;
-    const terrain = updatedGrid[enemyY][enemyX].terrain;
-    const damage = calculateDamage(unit, defender, terrain);
-    const updatedDefender = { ...defender, health: defender.health - damage };
-
-    let didCounter = false;
-    playAttack(isMuted);
-    if (updatedDefender.health <= 0) {
-      updatedGrid[enemyY][enemyX].unit = null;
-      setTimeout(() => playDestroyed(isMuted), 450);
+    animateAttack(outcome, from, target);
+    const { attacker, defender, damage, counterDamage } = outcome;
+    if (outcome.defenderDestroyed) {
       setGameStatus(`${defender.type} destroyed!`);
+    } else if (outcome.attackerDestroyed) {
+      setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked, destroying ${attacker.type}!`);
+    } else if (counterDamage !== null) {
+      setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked for ${counterDamage}!`);
     } else {
-      updatedGrid[enemyY][enemyX].unit = updatedDefender;
-      setTimeout(() => playImpact(isMuted), 450);
-
-      // Counter-attack: close-range enemy strikes back based on its remaining health
-      const [ax, ay] = unit.position;
-      const distance = Math.abs(enemyX - ax) + Math.abs(enemyY - ay);
-      if (updatedDefender.attackRange === 1 && distance <= 1) {
-        didCounter = true;
-        const attackerTerrain = updatedGrid[ay][ax].terrain;
-        const counterDamage = calculateDamage(updatedDefender, unit, attackerTerrain);
-        const updatedAttacker = { ...unit, health: unit.health - counterDamage };
-        if (updatedAttacker.health <= 0) {
-          updatedGrid[ay][ax].unit = null;
-          setTimeout(() => { playCounterAttack(isMuted); setTimeout(() => playDestroyed(isMuted), 300); }, 600);
-          setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked, destroying ${unit.type}!`);
-        } else {
-          updatedGrid[ay][ax].unit = updatedAttacker;
-          setTimeout(() => playCounterAttack(isMuted), 600);
-          setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked for ${counterDamage}!`);
-        }
-      } else {
-        setGameStatus(`${defender.type} took ${damage} damage!`);
-      }
+      setGameStatus(`${defender.type} took ${damage} damage!`);
     }
+    announceWinner(state);
+    return true;
+  };
 
-    setAttackEvent({ attackerPos: unit.position, defenderPos: [enemyX, enemyY], timestamp: performance.now(), hasCounter: didCounter });
-    setTimeout(() => setAttackEvent(null), didCounter ? 1400 : 800);
-    setGrid(updatedGrid);
-    // Only deduct AP if the unit didn't already spend AP on moving
-    if (!justMoved) {
-      setActionPoints(prev => ({ ...prev, Red: prev.Red - 1 }));
-    }
-    setUnitCooldowns(prev => ({ ...prev, [unit.id]: Date.now() + COOLDOWN_DURATION }));
-    setActionMenu(null);
-
-    // Check win conditions
-    if (countPlayerUnits(updatedGrid, 'Blue') === 0) {
-      setGameStatus('Red wins!');
-      gameOverRef.current = true;
-      playVictory(isMuted);
-    }
-    if (countPlayerUnits(updatedGrid, 'Red') === 0) {
-      setGameStatus('Blue wins!');
-      gameOverRef.current = true;
-      playDefeat(isMuted);
-    }
+  const handleAttackFromMenu = (enemyX: number, enemyY: number) => {
+    if (!actionMenu) return;
+    const { x, y } = actionMenu;
+    if (performAttack([x, y], [enemyX, enemyY])) setActionMenu(null);
   };
 
   // --- Attack (costs 1 AP, starts cooldown) ---
 
   const attackUnit = (attacker: Unit, x: number, y: number) => {
-    if (actionPoints.Red <= 0) {
-      setGameStatus('No AP!');
-      return;
-    }
+    if (!performAttack(attacker.position, [x, y])) return;
+    setSelectedUnit(null);
+    setMovementRange([]);
+    setAttackRange([]);
+  };
 
-    const updatedGrid = [...grid];
-    const defender = grid[y][x].unit!;
-    const terrain = grid[y][x].terrain;
-    const damage = calculateDamage(attacker, defender, terrain);
-    const updatedDefender = { ...defender, health: defender.health - damage };
+  // --- Turn mode ---
 
-    let didCounter = false;
-    playAttack(isMuted);
-    if (updatedDefender.health <= 0) {
-      updatedGrid[y][x].unit = null;
-      setTimeout(() => playDestroyed(isMuted), 450);
-      setGameStatus(`${defender.type} destroyed!`);
-    } else {
-      updatedGrid[y][x].unit = updatedDefender;
-      setTimeout(() => playImpact(isMuted), 450);
-
-      // Counter-attack: close-range enemy strikes back based on its remaining health
-      const [ax, ay] = attacker.position;
-      const distance = Math.abs(x - ax) + Math.abs(y - ay);
-      if (updatedDefender.attackRange === 1 && distance <= 1) {
-        didCounter = true;
-        const attackerTerrain = grid[ay][ax].terrain;
-        const counterDamage = calculateDamage(updatedDefender, attacker, attackerTerrain);
-        const updatedAttacker = { ...attacker, health: attacker.health - counterDamage };
-        if (updatedAttacker.health <= 0) {
-          updatedGrid[ay][ax].unit = null;
-          setTimeout(() => { playCounterAttack(isMuted); setTimeout(() => playDestroyed(isMuted), 300); }, 600);
-          setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked, destroying ${attacker.type}!`);
-        } else {
-          updatedGrid[ay][ax].unit = updatedAttacker;
-          setTimeout(() => playCounterAttack(isMuted), 600);
-          setGameStatus(`${defender.type} took ${damage} dmg and counter-attacked for ${counterDamage}!`);
-        }
-      } else {
-        setGameStatus(`${defender.type} took ${damage} damage!`);
-      }
+  const handleEndTurn = () => {
+    const { outcome, error } = dispatch({ type: 'endTurn' });
+    if (!outcome || outcome.type !== 'endTurn') {
+      setGameStatus(error ?? 'Cannot end turn');
+      return;
     }
-
-    setAttackEvent({ attackerPos: attacker.position, defenderPos: [x, y], timestamp: performance.now(), hasCounter: didCounter });
-    setTimeout(() => setAttackEvent(null), didCounter ? 1400 : 800);
-    setGrid(updatedGrid);
-    setActionPoints(prev => ({ ...prev, Red: prev.Red - 1 }));
-    setUnitCooldowns(prev => ({ ...prev, [attacker.id]: Date.now() + COOLDOWN_DURATION }));
     setSelectedUnit(null);
     setMovementRange([]);
     setAttackRange([]);
-
-    // Check win conditions
-    if (countPlayerUnits(updatedGrid, 'Blue') === 0) {
-      setGameStatus('Red wins!');
-      gameOverRef.current = true;
-      playVictory(isMuted);
-    }
-    if (countPlayerUnits(updatedGrid, 'Red') === 0) {
-      setGameStatus('Blue wins!');
-      gameOverRef.current = true;
-      playDefeat(isMuted);
+    setActionMenu(null);
+    setFactoryMenu(null);
+    if (hotSeat) {
+      setHandoff(outcome.player);
+      setGameStatus(`Turn ${outcome.turn} — ${outcome.player}'s turn (+$${outcome.income})`);
+    } else {
+      setGameStatus(isAIEnabled ? 'Blue is thinking…' : `${outcome.player}'s turn (+$${outcome.income})`);
     }
   };
 
+  /** Hot-seat: the next player has the device — reveal the board and start their clock. */
+  const confirmHandoff = () => {
+    setHandoff(null);
+    if (timeLimit > 0) setDeadline(Date.now() + timeLimit * 1000);
+  };
+
   // --- Viewport & navigation ---
 
   // centerViewportOn is a no-op in 3D mode (OrbitControls handles camera)
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const centerViewportOn = (_x: number, _y: number) => { /* no-op: 3D camera managed by OrbitControls */ };
 
-  const findRedUnits = (): [number, number][] => {
+  const findOwnUnits = (): [number, number][] => {
     const units: [number, number][] = [];
     for (let y = 0; y < GRID_SIZE; y++)
       for (let x = 0; x < GRID_SIZE; x++)
-        if (grid[y]?.[x]?.unit?.player === 'Red') units.push([x, y]);
+        if (grid[y]?.[x]?.unit?.player === me) units.push([x, y]);
     return units;
   };
 
   const cycleToNextUnit = () => {
-    const units = findRedUnits().filter(([x, y]) => {
+    if (handoff) return;
+    const units = findOwnUnits().filter(([x, y]) => {
       const unit = grid[y][x].unit!;
-      return !isUnitOnCooldown(unit.id);
+      return isTurnMode ? isUnitReady(game, unit, now) : !isUnitOnCooldown(unit.id);
     });
     if (units.length === 0) return;
 
@@ -744,7 +1010,32 @@ const Game = () => {
       {/* Header */}
       <header className="flex items-center justify-between px-4 py-2 bg-white shadow z-10 shrink-0">
         <h1 className="text-xl font-bold">Battle for Fun</h1>
+        {hotSeat && !game.winner && (
+          <span
+            className={`text-sm font-bold px-2 py-0.5 rounded text-white ${me === 'Red' ? 'bg-red-600' : 'bg-blue-600'}`}
+            title={isTurnMode ? 'Side whose turn it is' : 'Side the last touched unit or factory belongs to'}
+          >
+            {isTurnMode ? `${me} to move` : `Controlling ${me}`}
+          </span>
+        )}
+        {online && room && (
+          <span
+            className={`text-sm font-bold px-2 py-0.5 rounded text-white ${me === 'Red' ? 'bg-red-600' : 'bg-blue-600'}`}
+            title="Your side in this online match"
+          >
+            You are {me}
+          </span>
+        )}
+        {deadline !== null && !game.winner && !handoff && (
+          <span
+            className={`font-mono text-sm font-bold px-2 py-0.5 rounded ${deadline - now <= 10000 ? 'bg-red-100 text-red-700 animate-pulse' : 'bg-gray-100 text-gray-700'}`}
+            title={isTurnMode ? 'Time left this turn' : 'Time left in the match'}
+          >
+            {isTurnMode ? `${game.activePlayer} turn` : 'Match'} ⏱ {formatClock(deadline - now)}
+          </span>
+        )}
         <button
+          type="button"
           onClick={() => setIsMuted(m => !m)}
           className="text-lg px-2 py-0.5 rounded bg-gray-100 hover:bg-gray-200 border"
           title={isMuted ? 'Unmute' : 'Mute'}
@@ -761,12 +1052,39 @@ const Game = () => {
           {/* Status & resources */}
           <div className="bg-white p-3 rounded shadow">
             <p className="text-sm font-medium mb-2 text-gray-700">{gameStatus}</p>
-            <div className="flex gap-4 mb-3">
+            <p className="text-xs text-gray-500 mb-2 select-all" title="Enter this seed in the lobby to replay the same map">
+              Seed: <span className="font-mono">{seed}</span>
+            </p>
+            <p className="text-xs text-gray-500 mb-2" title={ruleset.description}>Rules: {ruleset.name}</p>
+            <p className="text-xs text-gray-500 mb-2">Win: {describeVictory(game.victory)}</p>
+            {game.winner && (
+              <div className={`rounded p-2 mb-2 text-center ${game.winner === 'Red' ? 'bg-red-50' : 'bg-blue-50'}`}>
+                <p className="text-sm font-bold">{hotSeat ? `${game.winner} wins!` : game.winner === me ? 'Victory!' : 'Defeat'}</p>
+                <p className="text-xs text-gray-600">{describeWin(game)}</p>
+                <p className="text-xs text-gray-600">Hints used: {hintsUsed}/{HINTS_PER_MATCH}</p>
+                <Link to="/replay" className="block text-xs font-semibold text-purple-600 hover:underline mt-1">
+                  Watch replay
+                </Link>
+              </div>
+            )}
+            <div className="flex gap-4 mb-1">
               <p className="text-red-600 font-bold text-sm">Red: ${resources.Red}</p>
               <p className="text-blue-600 font-bold text-sm">Blue: ${resources.Blue}</p>
             </div>
+            <p className="text-xs text-gray-600 mb-3" title={`Each owned city pays $${CITY_INCOME} per income tick`}>
+              {hotSeat ? `${me} income` : 'Income'}: <span className="font-semibold text-green-700">+${myIncome}</span> / {isTurnMode ? 'turn' : `${INCOME_INTERVAL / 1000}s`}
+              {' · '}
+              {isTurnMode
+                ? <>next turn ${resources[me] + myIncome}</>
+                : <>in 1 min ${resources[me] + myIncome * (60000 / INCOME_INTERVAL)}</>}
+            </p>
 
-            {/* AP Display */}
+            {isTurnMode ? (
+              <p className={`text-sm font-bold mb-3 ${game.activePlayer === 'Red' ? 'text-red-600' : 'text-blue-600'}`}>
+                Turn {game.turn} — {game.activePlayer}'s turn
+              </p>
+            ) : (
+            /* AP Display */
             <div className="space-y-1 mb-3">
               <div className="flex items-center gap-2">
                 <IconBolt size={14} className="text-red-600 shrink-0" />
@@ -795,21 +1113,115 @@ const Game = () => {
                 <span className="text-xs font-bold text-blue-600">{actionPoints.Blue}</span>
               </div>
             </div>
+            )}
 
             <button
+              type="button"
               className="w-full bg-green-500 hover:bg-green-600 text-white px-3 py-1.5 rounded text-sm flex items-center justify-center gap-1"
               onClick={cycleToNextUnit}
             >
               <IconPlayerTrackNext size={14} /> Next Unit
             </button>
+            <button
+              type="button"
+              className="w-full mt-1 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 rounded text-sm flex items-center justify-center gap-1 disabled:opacity-50"
+              onClick={requestHint}
+              disabled={terrainLoading || !!game.winner || !!handoff || hintPending || hintsUsed >= HINTS_PER_MATCH || (isTurnMode && game.activePlayer !== me)}
+              title="Ask the Hard AI for your best move"
+            >
+              <IconBulb size={14} /> {hintPending ? 'Thinking…' : `Hint (${HINTS_PER_MATCH - hintsUsed} left)`}
+            </button>
+            {hint && <p className="mt-1 rounded bg-emerald-50 p-1.5 text-xs text-emerald-800">{hint.text}</p>}
+            {isTurnMode && (
+              <button
+                type="button"
+                className="w-full mt-1 bg-gray-700 hover:bg-gray-800 text-white px-3 py-1.5 rounded text-sm flex items-center justify-center gap-1 disabled:opacity-50"
+                onClick={handleEndTurn}
+                disabled={terrainLoading || !!game.winner || ((isAIEnabled || !!online) && game.activePlayer !== me)}
+              >
+                <IconHourglass size={14} /> End Turn
+              </button>
+            )}
           </div>
 
-          {/* AI Controls */}
+          {/* Save slots — online matches live on the server */}
+          {!online && (
+          <div className="bg-white p-3 rounded shadow">
+            <p className="text-xs font-semibold mb-1">Save Game</p>
+            <div className="flex gap-1">
+              <input
+                type="text"
+                className="flex-1 min-w-0 border rounded px-2 py-1 text-xs"
+                placeholder="Slot name"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+              />
+              <button
+                type="button"
+                className="bg-gray-700 hover:bg-gray-800 text-white px-2 py-1 rounded text-xs disabled:opacity-50"
+                onClick={handleSaveGame}
+                disabled={terrainLoading || !!game.winner}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          )}
+
+          {/* AI Controls — online and hot-seat have no AI side */}
+          {online ? (
+            <div className="bg-white p-3 rounded shadow text-xs text-gray-600">
+              <p className="font-semibold text-gray-700 mb-1">Online</p>
+              <p className="mb-1">
+                Room <span className="font-mono font-bold select-all">{online.room}</span>
+              </p>
+              <p className={opponentConnected ? 'text-green-700' : 'text-amber-700'}>
+                {opponentConnected ? 'Opponent connected' : 'Opponent disconnected — their seat is held'}
+              </p>
+              <div className="mt-2 h-24 overflow-y-auto bg-gray-50 rounded p-1 space-y-0.5">
+                {chatLog.map(entry => (
+                  <p key={entry.id} className={entry.from ? '' : 'italic text-gray-400'}>
+                    {entry.from && <span className="font-semibold">{entry.from}: </span>}
+                    {entry.text}
+                  </p>
+                ))}
+              </div>
+              <form
+                className="mt-1 flex gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!chatInput.trim()) return;
+                  netRef.current?.say(chatInput.trim());
+                  setChatInput('');
+                }}
+              >
+                <input
+                  value={chatInput}
+                  onChange={(e) => setChatInput(e.target.value)}
+                  maxLength={200}
+                  placeholder="Message your opponent"
+                  className="flex-1 min-w-0 border rounded px-1 py-0.5"
+                />
+                <button type="submit" className="px-2 py-0.5 rounded bg-gray-200 text-gray-700 hover:bg-gray-300">
+                  Send
+                </button>
+              </form>
+            </div>
+          ) : hotSeat ? (
+            <div className="bg-white p-3 rounded shadow text-xs text-gray-600">
+              <p className="font-semibold text-gray-700 mb-1">Hot-seat</p>
+              <p>
+                <span className="font-semibold text-red-600">Red</span> and <span className="font-semibold text-blue-600">Blue</span> share this device.
+                {isTurnMode ? ' Pass it over when you end your turn.' : ' Click any unit or factory to command its side.'}
+              </p>
+            </div>
+          ) : (
           <div className="bg-white p-3 rounded shadow">
             <div className="flex items-center gap-2 mb-2">
               <IconRobot size={14} className="text-gray-600" />
               <span className="text-xs font-semibold">AI (Blue):</span>
               <button
+                type="button"
                 className={`px-2 py-0.5 text-xs rounded ${isAIEnabled ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
                 onClick={() => setIsAIEnabled(v => !v)}
               >
@@ -820,6 +1232,7 @@ const Game = () => {
               <div className="flex gap-1">
                 {(['easy', 'medium', 'hard'] as const).map(level => (
                   <button
+                    type="button"
                     key={level}
                     className={`px-2 py-0.5 text-xs rounded capitalize ${aiDifficulty === level ? 'bg-purple-600 text-white' : 'bg-gray-200'}`}
                     onClick={() => setAiDifficulty(level)}
@@ -829,19 +1242,41 @@ const Game = () => {
                 ))}
               </div>
             )}
+            {isAIEnabled && (
+              <p className="text-[10px] text-gray-500 mt-1" title={PERSONALITIES[aiPersonality].description}>
+                Personality: {PERSONALITIES[aiPersonality].name}
+              </p>
+            )}
+            <label className="flex items-center gap-1 mt-2 text-[10px] text-gray-500">
+              <input type="checkbox" checked={showThreatMap} onChange={e => setShowThreatMap(e.target.checked)} />
+              Show AI threat map (debug)
+            </label>
           </div>
+          )}
         </aside>
 
         {/* Center — 3D board (fills remaining space) */}
         <div className="relative flex-1 min-w-0 min-h-[420px] lg:min-h-0 lg:h-full rounded-lg overflow-hidden shadow-lg">
           {/* Real-world map backdrop */}
-          <MapLibreBackdrop ref={mapBackdropRef} center={MAP_CENTER} zoom={BASE_MAP_ZOOM - Math.log2(MAP_SIZE / 10)} />
+          {/* An online guest learns the location from the room first */}
+          {(!online || room) && (
+            <MapLibreBackdrop ref={mapBackdropRef} center={MAP_CENTER} zoom={BASE_MAP_ZOOM - Math.log2(MAP_SIZE / 10)} />
+          )}
 
           {/* Loading overlay while terrain data is fetched */}
           {terrainLoading && (
             <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/70 text-white gap-3">
-              <div className="w-8 h-8 border-4 border-white/30 border-t-white rounded-full animate-spin" />
-              <p className="text-sm font-semibold tracking-wide">Loading NYC terrain…</p>
+              {netStatus ? (
+                <>
+                  <p className="text-sm font-semibold tracking-wide">{netStatus}</p>
+                  <Link to="/" className="text-xs font-semibold underline">Back to the Lobby</Link>
+                </>
+              ) : (
+                <>
+                  <div className="w-8 h-8 border-4 border-white/30 border-t-white rounded-full animate-spin" />
+                  <p className="text-sm font-semibold tracking-wide">{online ? `Joining room ${online.room}…` : 'Loading NYC terrain…'}</p>
+                </>
+              )}
             </div>
           )}
 
@@ -850,13 +1285,33 @@ const Game = () => {
             selectedUnit={selectedUnit}
             movementRange={movementRange}
             attackRange={attackRange}
-            unitCooldowns={unitCooldowns}
+            unitCooldowns={isTurnMode ? {} : unitCooldowns}
+            actedUnits={isTurnMode ? game.acted : undefined}
+            visibility={visibility}
+            threatHeat={threatHeatMap}
+            hintTiles={hint?.tiles}
             now={now}
             onTileClick={handleTileClick}
             attackEvent={attackEvent}
             mapBackdropRef={mapBackdropRef}
           />
-          <MinimapOverlay grid={grid} />
+          <MinimapOverlay grid={grid} visibility={visibility} />
+
+          {/* Hot-seat: hide the board while the device changes hands */}
+          {handoff && !game.winner && (
+            <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-4 bg-gray-900 text-white">
+              <p className="text-lg font-semibold">
+                Pass the device to <span className={handoff === 'Red' ? 'text-red-400' : 'text-blue-400'}>{handoff}</span>
+              </p>
+              <button
+                type="button"
+                className={`px-4 py-2 rounded font-semibold ${handoff === 'Red' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+                onClick={confirmHandoff}
+              >
+                I'm {handoff} — show the board
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Right sidebar — camera hints + how to play */}
@@ -873,16 +1328,28 @@ const Game = () => {
           <div className="bg-white p-3 rounded shadow">
             <h3 className="font-semibold text-sm mb-1">How to Play</h3>
             <ul className="list-disc pl-4 text-xs space-y-0.5 mb-2">
-              <li>Click a Red unit to select it</li>
+              <li>{hotSeat ? 'Click one of your units to select it' : 'Click a Red unit to select it'}</li>
               <li><span className="text-blue-500 font-semibold">Blue</span> = move, <span className="text-red-500 font-semibold">Red</span> = attack (1 AP each)</li>
-              <li>Units go on <span className="text-orange-500 font-semibold">60s cooldown</span> after acting</li>
-              <li>AP: +1 every 60s (max 10)</li>
+              <li>Hover a red tile to preview damage and counter-attack</li>
+              <li>Stuck? <span className="font-semibold">Hint</span> rings your best move in green ({HINTS_PER_MATCH} per match)</li>
+              {isTurnMode ? (
+                <>
+                  <li>Each unit acts once per turn, then press <span className="font-semibold">End Turn</span></li>
+                  <li>Cities pay ${CITY_INCOME} and repair your units at the start of your turn</li>
+                </>
+              ) : (
+                <>
+                  <li>Units go on <span className="text-orange-500 font-semibold">{COOLDOWN_DURATION / 1000}s cooldown</span> after acting</li>
+                  <li>AP: +1 every {AP_REGEN_INTERVAL / 1000}s (max {MAX_AP}); attacking or capturing right after a move is free</li>
+                </>
+              )}
+              {game.fogOfWar && <li>Fog of war: you only see what your units see — forests hide units, mountains extend sight</li>}
             </ul>
             <h3 className="font-semibold text-sm mb-1">Unit Types</h3>
             <div className="text-xs space-y-0.5">
-              <p className="flex items-center gap-1"><IconSword size={12} /> Infantry — Basic</p>
-              <p className="flex items-center gap-1"><IconShield size={12} /> Tank — Strong</p>
-              <p className="flex items-center gap-1"><IconTarget size={12} /> Artillery — Long range</p>
+              <p className="flex items-center gap-1"><IconSword size={12} /> Infantry — Basic, climbs mountains</p>
+              <p className="flex items-center gap-1"><IconShield size={12} /> Tank — Strong, no mountains</p>
+              <p className="flex items-center gap-1"><IconTarget size={12} /> Artillery — Long range, best on roads</p>
               <p className="flex items-center gap-1"><IconHelicopter size={12} /> Chopper — Flies over terrain</p>
             </div>
           </div>
@@ -905,19 +1372,21 @@ const Game = () => {
             <p className="text-xs font-semibold flex items-center gap-1">
               <IconBuildingFactory size={12} /> Factory — Buy Unit
             </p>
-            {(['Infantry', 'Tank', 'Artillery', 'Chopper'] as UnitType[]).map(unitType => (
+            {BUILDABLE_UNITS.map(unitType => (
               <button
+                type="button"
                 key={unitType}
                 className="w-full bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded text-xs font-semibold disabled:opacity-50 flex items-center justify-between"
                 onClick={() => handleBuyUnit(unitType)}
-                disabled={resources.Red < UNIT_COSTS[unitType] || actionPoints.Red <= 0}
+                disabled={resources[factoryMenu.player] < UNIT_COSTS[unitType] || !canPlayerAct(game, factoryMenu.player)}
               >
                 <span className="flex items-center gap-1">{getUnitIcon(unitType)} {unitType}</span>
                 <span>${UNIT_COSTS[unitType]}</span>
               </button>
             ))}
-            <p className="text-xs text-gray-500 text-center">Funds: ${resources.Red}</p>
+            <p className="text-xs text-gray-500 text-center">Funds: ${resources[factoryMenu.player]}</p>
             <button
+              type="button"
               className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded text-xs font-semibold"
               onClick={() => setFactoryMenu(null)}
             >
@@ -940,33 +1409,49 @@ const Game = () => {
           onClick={(e) => e.stopPropagation()}
           onMouseDown={(e) => e.stopPropagation()}
         >
-          <div className="bg-white rounded shadow-lg border border-gray-300 p-2 w-44 space-y-1">
+          <div className="bg-white rounded shadow-lg border border-gray-300 p-2 w-52 space-y-1">
             {actionMenu.canCapture && (
               <>
                 <p className="text-xs text-gray-600 whitespace-nowrap">
-                  Capture: {(grid[actionMenu.y]?.[actionMenu.x]?.terrain as City)?.captureProgress ?? 0}/20 (+{Math.floor(actionMenu.unit.health / 10)})
+                  Capture points: {CAPTURE_THRESHOLD - ((grid[actionMenu.y]?.[actionMenu.x]?.terrain as City)?.captureProgress ?? 0)}/{CAPTURE_THRESHOLD} (−{capturePoints(actionMenu.unit)})
                 </p>
                 <button
+                  type="button"
                   className="w-full bg-yellow-500 hover:bg-yellow-600 text-white px-2 py-1 rounded text-xs font-semibold disabled:opacity-50"
                   onClick={handleCapture}
-                  disabled={actionPoints.Red <= 0}
+                  disabled={!canPlayerAct(game, actionMenu.unit.player) && !actionMenu.justMoved}
                 >
-                  Capture {actionMenu.justMoved ? '' : '(1 AP)'}
+                  Capture {actionMenu.justMoved || isTurnMode ? '' : '(1 AP)'}
                 </button>
               </>
             )}
-            {actionMenu.enemies.map((enemy) => (
-              <button
-                key={enemy.unit.id}
-                className="w-full bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs font-semibold disabled:opacity-50 flex items-center justify-between"
-                onClick={() => handleAttackFromMenu(enemy.x, enemy.y)}
-                disabled={actionPoints.Red <= 0 && !actionMenu.justMoved}
-              >
-                <span>Attack {enemy.unit.type}</span>
-                <span className="text-red-200">{enemy.unit.health}hp</span>
-              </button>
-            ))}
+            {actionMenu.enemies.map((enemy) => {
+              const attackerTile = grid[actionMenu.y][actionMenu.x];
+              const forecast = resolveAttack(attackerTile.unit ?? actionMenu.unit, attackerTile, enemy.unit, grid[enemy.y][enemy.x]);
+              return (
+                <button
+                  type="button"
+                  key={enemy.unit.id}
+                  className="w-full bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-xs font-semibold disabled:opacity-50"
+                  onClick={() => handleAttackFromMenu(enemy.x, enemy.y)}
+                  disabled={!canPlayerAct(game, actionMenu.unit.player) && !actionMenu.justMoved}
+                >
+                  <span className="flex items-center justify-between">
+                    <span>Attack {enemy.unit.type}</span>
+                    <span className="text-red-200">{enemy.unit.health}hp</span>
+                  </span>
+                  <span className="block text-left font-normal text-red-100">
+                    {forecast.damage} dmg → {forecast.defenderHealth <= 0 ? 'destroyed' : `${forecast.defenderHealth}hp`}
+                    {' · '}
+                    {forecast.counterDamage === null
+                      ? 'no counter'
+                      : `counter ${forecast.counterDamage}${forecast.attackerHealth <= 0 ? ' (lethal)' : ''}`}
+                  </span>
+                </button>
+              );
+            })}
             <button
+              type="button"
               className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded text-xs font-semibold"
               onClick={handleWait}
             >
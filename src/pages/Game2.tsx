@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { IconSwords, IconShield, IconTarget, IconCurrencyDollar, IconFlag, IconBolt } from '@tabler/icons-react';
+import { RULESETS } from '../lib/rulesets';
+import type { UnitType as RulesetUnit, TerrainType as RulesetTerrain } from '../types/game';
 
 type TerrainType = 'plain' | 'forest' | 'mountain' | 'city' | 'base';
 type UnitType = 'infantry' | 'tank' | 'artillery' | null;
@@ -23,32 +25,57 @@ interface UnitStats {
   movement: number;
   minRange: number;
   maxRange: number;
-  attack: number;
-  defense: number;
 }
 
-const UNIT_STATS: Record<string, UnitStats> = {
-  infantry: { cost: 1000, movement: 3, minRange: 1, maxRange: 1, attack: 55, defense: 50 },
-  tank: { cost: 7000, movement: 6, minRange: 1, maxRange: 1, attack: 85, defense: 70 },
-  artillery: { cost: 6000, movement: 5, minRange: 2, maxRange: 3, attack: 90, defense: 40 }
+// Balance comes from the Game2 ruleset (src/rulesets/game2.json), so this
+// prototype and a Game2-ruleset match play by the same numbers.
+const RULES = RULESETS.game2;
+
+const RULESET_UNIT: Record<Exclude<UnitType, null>, RulesetUnit> = {
+  infantry: 'Infantry',
+  tank: 'Tank',
+  artillery: 'Artillery'
 };
 
-const TERRAIN_DEFENSE: Record<TerrainType, number> = {
-  plain: 0,
-  forest: 20,
-  mountain: 30,
-  city: 30,
-  base: 30
+// Bases defend and cost like cities
+const RULESET_TERRAIN: Record<TerrainType, RulesetTerrain> = {
+  plain: 'Plain',
+  forest: 'Forest',
+  mountain: 'Mountain',
+  city: 'City',
+  base: 'City'
+};
+
+const unitStats = (type: Exclude<UnitType, null>): UnitStats => {
+  const rules = RULES.units[RULESET_UNIT[type]];
+  return {
+    cost: rules.cost,
+    movement: rules.moveRange,
+    // Rulesets have no minimum range; artillery can't fire point-blank here
+    minRange: type === 'artillery' ? 2 : 1,
+    maxRange: rules.attackRange
+  };
 };
 
-const MAX_ACTION_POINTS = 10;
-const AP_RECOVERY_INTERVAL = 60000; // 1 minute in milliseconds
-const UNIT_COOLDOWN = 60000; // 1 minute cooldown after using a unit
+const UNIT_STATS: Record<string, UnitStats> = {
+  infantry: unitStats('infantry'),
+  tank: unitStats('tank'),
+  artillery: unitStats('artillery')
+};
+
+const moveCost = (type: Exclude<UnitType, null>, terrain: TerrainType): number | null =>
+  RULES.movementCosts[RULES.units[RULESET_UNIT[type]].movementClass][RULESET_TERRAIN[terrain]];
+
+const MAX_ACTION_POINTS = RULES.timing.maxAP;
+const AP_RECOVERY_INTERVAL = RULES.timing.apRegenInterval;
+const UNIT_COOLDOWN = RULES.timing.cooldownDuration;
+const INCOME_INTERVAL = RULES.timing.incomeInterval;
+const CITY_INCOME = RULES.economy.cityIncome;
 
 const Game2: React.FC = () => {
   const [gridSize] = useState({ width: 12, height: 10 });
   const [grid, setGrid] = useState<Tile[][]>([]);
-  const [actionPoints, setActionPoints] = useState<Record<Player, number>>({ 1: 10, 2: 10 });
+  const [actionPoints, setActionPoints] = useState<Record<Player, number>>({ 1: RULES.timing.startingAP, 2: RULES.timing.startingAP });
   const [selectedCell, setSelectedCell] = useState<{ x: number; y: number } | null>(null);
   const [validMoves, setValidMoves] = useState<boolean[][]>([]);
   const [validAttacks, setValidAttacks] = useState<boolean[][]>([]);
@@ -57,7 +84,7 @@ const Game2: React.FC = () => {
   const [buyMenuCell, setBuyMenuCell] = useState<{ x: number; y: number } | null>(null);
   const [currentPlayer, setCurrentPlayer] = useState<Player>(1);
   const [lastApRecovery, setLastApRecovery] = useState<Record<Player, number>>({ 1: Date.now(), 2: Date.now() });
-  const [timeUntilNextAP, setTimeUntilNextAP] = useState<Record<Player, number>>({ 1: 60, 2: 60 });
+  const [timeUntilNextAP, setTimeUntilNextAP] = useState<Record<Player, number>>({ 1: AP_RECOVERY_INTERVAL / 1000, 2: AP_RECOVERY_INTERVAL / 1000 });
   const [unitCooldowns, setUnitCooldowns] = useState<Map<string, number>>(new Map());
 
   useEffect(() => {
@@ -110,14 +137,14 @@ const Game2: React.FC = () => {
           if (grid[y] && grid[y][x] && (grid[y][x].terrain === 'city' || grid[y][x].terrain === 'base')) {
             const owner = grid[y][x].owner;
             if (owner) {
-              newGold[owner] += 100;
+              newGold[owner] += CITY_INCOME;
             }
           }
         }
       }
       
       setGold(newGold);
-    }, 10000); // Income every 10 seconds
+    }, INCOME_INTERVAL);
 
     return () => clearInterval(incomeInterval);
   }, [grid]);
@@ -144,10 +171,10 @@ const Game2: React.FC = () => {
         }
 
         if (x === 2 && y === 2) {
-          unit = { type: 'infantry', player: 1, hp: 100, lastActionTime: 0 };
+          unit = { type: 'infantry', player: 1, hp: RULES.units.Infantry.health, lastActionTime: 0 };
         }
         if (x === 9 && y === 7) {
-          unit = { type: 'infantry', player: 2, hp: 100, lastActionTime: 0 };
+          unit = { type: 'infantry', player: 2, hp: RULES.units.Infantry.health, lastActionTime: 0 };
         }
 
         row.push({ terrain, unit, owner });
@@ -182,7 +209,8 @@ const Game2: React.FC = () => {
 
     const moves: boolean[][] = Array(gridSize.height).fill(null).map(() => Array(gridSize.width).fill(false));
     const visited: boolean[][] = Array(gridSize.height).fill(null).map(() => Array(gridSize.width).fill(false));
-    const queue: { x: number; y: number; movesLeft: number }[] = [{ x, y, movesLeft: UNIT_STATS[unit.type!].movement }];
+    const type = unit.type!;
+    const queue: { x: number; y: number; movesLeft: number }[] = [{ x, y, movesLeft: UNIT_STATS[type].movement }];
     
     visited[y][x] = true;
 
@@ -198,8 +226,8 @@ const Game2: React.FC = () => {
         if (nx >= 0 && nx < gridSize.width && ny >= 0 && ny < gridSize.height && !visited[ny][nx]) {
           const targetTile = grid[ny][nx];
           if (!targetTile.unit || (targetTile.unit.player === unit.player)) {
-            const moveCost = targetTile.terrain === 'mountain' ? 2 : 1;
-            const newMovesLeft = current.movesLeft - moveCost;
+            const cost = moveCost(type, targetTile.terrain);
+            const newMovesLeft = cost === null ? -1 : current.movesLeft - cost;
 
             if (newMovesLeft >= 0) {
               visited[ny][nx] = true;
@@ -306,14 +334,13 @@ const Game2: React.FC = () => {
     const attacker = newGrid[fromY][fromX].unit!;
     const defender = newGrid[toY][toX].unit!;
 
-    const attackerStats = UNIT_STATS[attacker.type!];
-    const defenderStats = UNIT_STATS[defender.type!];
-    const terrainDefense = TERRAIN_DEFENSE[newGrid[toY][toX].terrain];
+    // Same formula as lib/combat.ts: matchup damage scaled by the attacker's health, reduced by terrain
+    const attackerType = RULESET_UNIT[attacker.type!];
+    const base = RULES.damage[attackerType][RULESET_UNIT[defender.type!]];
+    const terrainDefense = RULES.terrain[RULESET_TERRAIN[newGrid[toY][toX].terrain]].defenseBonus;
+    const maxHp = RULES.units[attackerType].health;
 
-    const damage = Math.max(1, Math.floor(
-      (attackerStats.attack * (attacker.hp / 100)) - 
-      (defenderStats.defense * (defender.hp / 100) * (1 + terrainDefense / 100)) / 2
-    ));
+    const damage = Math.max(1, Math.round(base * (attacker.hp / maxHp) * (1 - terrainDefense / 100)));
 
     defender.hp = Math.max(0, defender.hp - damage);
 
@@ -336,7 +363,7 @@ const Game2: React.FC = () => {
     newGrid[buyMenuCell.y][buyMenuCell.x].unit = {
       type: unitType,
       player: currentPlayer,
-      hp: 100,
+      hp: RULES.units[RULESET_UNIT[unitType]].health,
       lastActionTime: Date.now()
     };
 
@@ -496,13 +523,13 @@ const Game2: React.FC = () => {
           <h3 className="font-bold mb-2">How to Play:</h3>
           <ul className="text-sm space-y-1 text-gray-300">
             <li>• Each action (move or attack) costs 1 Action Point (AP)</li>
-            <li>• After using a unit, it goes on cooldown for 60 seconds (shown with orange timer)</li>
+            <li>• After using a unit, it goes on cooldown for {UNIT_COOLDOWN / 1000} seconds (shown with orange timer)</li>
             <li>• Units on cooldown appear faded and cannot be used until cooldown expires</li>
-            <li>• Action Points regenerate automatically - 1 AP every 60 seconds</li>
-            <li>• Maximum of 10 AP per player</li>
+            <li>• Action Points regenerate automatically - 1 AP every {AP_RECOVERY_INTERVAL / 1000} seconds</li>
+            <li>• Maximum of {MAX_ACTION_POINTS} AP per player</li>
             <li>• Click any unit to see movement range (blue) and attack range (red)</li>
             <li>• Click your base to buy units when it's empty</li>
-            <li>• Capture cities for passive income ($100 every 10 seconds)</li>
+            <li>• Capture cities for passive income (${CITY_INCOME} every {INCOME_INTERVAL / 1000} seconds)</li>
             <li>• Use "Switch Player" button to control the other player</li>
             <li>• Infantry: Cheap scouts | Tank: Heavy hitters | Artillery: Long-range</li>
           </ul>
@@ -1,59 +1,267 @@
-import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import LocationPicker from '../components/LocationPicker';
+import type { GameMode } from '../lib/engine';
+import type { ChatEntry, JoinedMessage, LobbySettings, RoomInfo } from '../lib/netProtocol';
+import { DEFAULT_PERSONALITY, PERSONALITIES, type PersonalityId } from '../lib/personalities';
+import { fetchRealTerrain } from '../lib/realMap';
+import { parseSeed, randomSeed } from '../lib/rng';
+import { type RoomClient, connectRoom } from '../lib/roomClient';
+import { AUTOSAVE_ID, deleteSave, listSaves } from '../lib/saves';
+import { DEFAULT_RULESET, RULESETS } from '../lib/rulesets';
+import { CITY_SHARE_OPTIONS, DEFAULT_VICTORY, type VictoryConditions } from '../lib/victory';
 
 interface GameSettings {
   startingFunds: number;
   fogOfWar: boolean;
   turnTimeLimit: number; // In seconds, 0 means no limit
   mapSize: 10 | 20 | 30;
+  mode: GameMode;
+  seed: string; // Blank means a fresh random seed
+  victory: VictoryConditions;
+  ruleset: string; // Id of a built-in ruleset (src/rulesets/*.json)
 }
 
 type AIDifficulty = 'easy' | 'medium' | 'hard';
+type Opponent = 'ai' | 'hotSeat' | 'online';
+
+const DEFAULT_SERVER_URL = 'ws://localhost:8787'; // `npm run server`
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I to misread
+const PLAYER_NAME_KEY = 'player_name';
+
+/** Short code a host shares so the other player can join. */
+const randomRoomCode = () =>
+  Array.from({ length: 5 }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join('');
+
+/** The Lobby form as room settings; a blank seed is picked when the match starts. */
+const toLobbySettings = (settings: GameSettings, battleLocation: [number, number]): LobbySettings => ({
+  mode: settings.mode,
+  fogOfWar: settings.fogOfWar,
+  victory: settings.victory,
+  ruleset: settings.ruleset,
+  startingFunds: settings.startingFunds,
+  battleLocation,
+  mapSize: settings.mapSize,
+  turnTimeLimit: settings.turnTimeLimit,
+  seed: settings.seed.trim() ? parseSeed(settings.seed) : null,
+});
+
+/** Link that opens the Lobby straight into the room (the app routes on the hash). */
+const roomLink = (server: string, code: string) =>
+  `${window.location.origin}${window.location.pathname}#/?room=${code}&server=${encodeURIComponent(server)}`;
 
 const Lobby = ({ }) => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [aiDifficulty, setAiDifficulty] = useState<AIDifficulty>('medium');
+  const [aiPersonality, setAiPersonality] = useState<PersonalityId>(DEFAULT_PERSONALITY);
+  // Blue is the AI, a second player on this device (hot-seat), or a player online
+  const [opponent, setOpponent] = useState<Opponent>(() => searchParams.get('room') ? 'online' : 'ai');
+  const hotSeat = opponent === 'hotSeat';
+  const [serverUrl, setServerUrl] = useState(() => searchParams.get('server') ?? DEFAULT_SERVER_URL);
+  const [roomCode, setRoomCode] = useState(() => searchParams.get('room') ?? '');
+  const [playerName, setPlayerName] = useState(() => {
+    try {
+      return localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+    } catch {
+      return '';
+    }
+  });
+
+  // Online: the room we're in before the match starts
+  const roomRef = useRef<RoomClient | null>(null);
+  const [joinedRoom, setJoinedRoom] = useState<JoinedMessage | null>(null);
+  const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const isHost = joinedRoom?.player === 'Red';
+  // A guest sees the host's settings but can't change them
+  const isGuest = joinedRoom?.player === 'Blue';
+  const inLobbyPhase = roomInfo?.phase === 'lobby';
+  const myMember = roomInfo?.members.find(m => m.player === joinedRoom?.player);
 
   const [gameSettings, setGameSettings] = useState<GameSettings>({
     startingFunds: 10000,
     fogOfWar: false,
     turnTimeLimit: 0,
     mapSize: 10,
+    mode: 'realtime',
+    seed: '',
+    victory: DEFAULT_VICTORY,
+    ruleset: DEFAULT_RULESET,
   });
 
-  const [chatMessages, setChatMessages] = useState<{sender: string, text: string}[]>([
-    { sender: "System", text: "Welcome! Pick a battle location and difficulty, then hit Start Game." },
+  const [chatMessages, setChatMessages] = useState<ChatEntry[]>([
+    { id: 0, from: null, text: 'Welcome! Pick a battle location and difficulty, then hit Start Game.', at: 0 },
   ]);
 
   const [chatInput, setChatInput] = useState("");
   // Battle location — click the map or pick a preset. Defaults to Central Park, NYC.
   const [battleLocation, setBattleLocation] = useState<[number, number]>([-73.9712, 40.7831]);
 
+  // Saved games (autosave backs "Continue")
+  const [saves, setSaves] = useState(() => listSaves());
+  const autosave = saves.find(s => s.id === AUTOSAVE_ID);
+  const namedSaves = saves.filter(s => s.id !== AUTOSAVE_ID);
+
   const handleSettingChange = (setting: keyof GameSettings, value: any) => {
     setGameSettings({ ...gameSettings, [setting]: value });
   };
 
-  const addChatMessage = (sender: string, text: string) => {
-    setChatMessages([...chatMessages, { sender, text }]);
+  const handleVictoryChange = (patch: Partial<VictoryConditions>) => {
+    setGameSettings({ ...gameSettings, victory: { ...gameSettings.victory, ...patch } });
   };
 
+  // Only a real-time match clock ends a match on score; without a condition
+  // or a clock, nobody could ever win
+  const hasMatchClock = gameSettings.mode === 'realtime' && gameSettings.turnTimeLimit > 0;
+  const canEnd = gameSettings.victory.annihilation || gameSettings.victory.hqCapture ||
+    gameSettings.victory.cityShare !== null || hasMatchClock;
+  // Real-time hot-seat shares one screen the whole time, so there's nobody to hide anything from
+  const fogAvailable = !hotSeat || gameSettings.mode === 'turns';
+
+  // Chat goes through the room; the server filters it and sends it back to everyone
   const handleSendChat = (e: React.FormEvent) => {
     e.preventDefault();
-    if (chatInput.trim()) {
-      addChatMessage("Player 1", chatInput.trim());
+    if (chatInput.trim() && roomRef.current) {
+      roomRef.current.send({ type: 'say', text: chatInput.trim() });
       setChatInput("");
     }
   };
 
+  const handleNameChange = (name: string) => {
+    setPlayerName(name);
+    try {
+      localStorage.setItem(PLAYER_NAME_KEY, name);
+    } catch { /* quota full */ }
+  };
+
+  const resetRoom = () => {
+    setJoinedRoom(null);
+    setRoomInfo(null);
+    setStarting(false);
+    setLinkCopied(false);
+  };
+
+  /** Join room `code` on the server — or host it, when `create` has the settings. */
+  const enterRoom = (code: string, create?: LobbySettings) => {
+    roomRef.current?.close();
+    setRoomError(null);
+    const server = serverUrl.trim();
+    let joined: JoinedMessage | null = null;
+    const client = connectRoom(server, { type: 'join', room: code, name: playerName.trim() || undefined, create }, {
+      onJoined: (message) => {
+        joined = message;
+        setJoinedRoom(message);
+        setRoomCode(message.room);
+        setChatMessages([]);
+        setSearchParams({ room: message.room, server }, { replace: true });
+      },
+      onRoom: (info) => {
+        setRoomInfo(info);
+        if (!joined) return;
+        if (joined.player === 'Blue') {
+          const { battleLocation: location, seed, ...settings } = info.settings;
+          setGameSettings({ ...settings, seed: seed === null ? '' : String(seed) });
+          setBattleLocation(location);
+        }
+        // The host started it: the Game page takes the seat over with its token
+        if (info.phase === 'match') {
+          navigate('/game', { state: { online: { server, room: info.code, seat: joined.player, token: joined.token } } });
+        }
+      },
+      onChat: (entries) => setChatMessages(log => [...log, ...entries]),
+      onError: (message) => {
+        setRoomError(message);
+        setStarting(false);
+        if (joined) return;
+        client.close();
+        if (roomRef.current === client) roomRef.current = null;
+      },
+      onClose: () => {
+        if (roomRef.current === client) roomRef.current = null;
+        resetRoom();
+        setRoomError(joined ? 'Lost the connection to the room' : `Can't reach the match server at ${server}`);
+      },
+    });
+    roomRef.current = client;
+  };
+
+  const handleLeaveRoom = () => {
+    roomRef.current?.send({ type: 'leave' });
+    roomRef.current?.close();
+    roomRef.current = null;
+    resetRoom();
+    setRoomError(null);
+    setSearchParams({}, { replace: true });
+  };
+
+  const handleCopyLink = async () => {
+    if (!joinedRoom) return;
+    try {
+      await navigator.clipboard.writeText(roomLink(serverUrl.trim(), joinedRoom.room));
+      setLinkCopied(true);
+    } catch { /* clipboard blocked — the code is selectable */ }
+  };
+
+  // Host: the real-world terrain is fetched here so both players get the same map
+  const handleStartMatch = async () => {
+    const settings = toLobbySettings(gameSettings, battleLocation);
+    setStarting(true);
+    const terrain = await fetchRealTerrain(battleLocation[0], battleLocation[1], gameSettings.mapSize);
+    roomRef.current?.send({ type: 'start', setup: { ...settings, seed: settings.seed ?? randomSeed(), terrain } });
+  };
+
+  // Host: every change goes to the room (where it clears both ready flags)
+  useEffect(() => {
+    if (isHost && inLobbyPhase) roomRef.current?.send({ type: 'settings', settings: toLobbySettings(gameSettings, battleLocation) });
+  }, [gameSettings, battleLocation, isHost, inLobbyPhase]);
+
+  // The room code the page was opened with, and the latest enterRoom (it reads the name and
+  // server fields) — the join-on-open effect below runs once, so it reads them through refs
+  const linkedRoomRef = useRef(roomCode);
+  const enterRoomRef = useRef(enterRoom);
+  useEffect(() => { enterRoomRef.current = enterRoom; });
+
+  // Opened from a room link: join straight away
+  useEffect(() => {
+    if (linkedRoomRef.current) enterRoomRef.current(linkedRoomRef.current);
+    return () => {
+      roomRef.current?.close();
+      roomRef.current = null;
+    };
+  }, []);
+
+  const bothReady = roomInfo?.members.length === 2 && roomInfo.members.every(m => m.ready && m.connected);
+
+  const handleResume = (slotId: string) => {
+    navigate('/game', { state: { resumeSlot: slotId, matchId: Date.now().toString(36) } });
+  };
+
+  const handleDeleteSave = (slotId: string) => {
+    deleteSave(slotId);
+    setSaves(listSaves());
+  };
+
   const handleStartGame = () => {
     navigate('/game', {
       state: {
-        isAIEnabled: true,
+        matchId: Date.now().toString(36),
+        isAIEnabled: opponent === 'ai',
+        hotSeat,
         aiDifficulty,
+        aiPersonality,
         battleLocation,
         mapSize: gameSettings.mapSize,
+        mode: gameSettings.mode,
+        fogOfWar: gameSettings.fogOfWar && fogAvailable,
+        startingFunds: gameSettings.startingFunds,
+        turnTimeLimit: gameSettings.turnTimeLimit,
+        victory: gameSettings.victory,
+        ruleset: gameSettings.ruleset,
+        seed: gameSettings.seed.trim() ? parseSeed(gameSettings.seed) : undefined,
       },
     });
   };
@@ -66,20 +274,154 @@ const Lobby = ({ }) => {
         <Link to="/game2">
           Game 2
         </Link>
+        {' · '}
+        <Link to="/replay">
+          Last Replay
+        </Link>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left column - Opponent */}
           <div className="bg-white rounded-lg shadow p-4">
             <h2 className="text-xl font-semibold mb-4">Opponent</h2>
 
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {([['ai', 'AI'], ['hotSeat', 'Hot-seat'], ['online', 'Online']] as const).map(([value, label]) => (
+                <button
+                  type="button"
+                  key={value}
+                  className={`px-3 py-2 text-sm rounded disabled:opacity-50 ${opponent === value ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                  onClick={() => setOpponent(value)}
+                  disabled={!!joinedRoom && value !== 'online'}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {opponent === 'online' && joinedRoom ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">Room</span>
+                  <span className="font-mono font-bold text-lg select-all">{joinedRoom.room}</span>
+                  <button
+                    type="button"
+                    className="ml-auto px-2 py-1 text-xs rounded bg-gray-200"
+                    onClick={handleCopyLink}
+                  >
+                    {linkCopied ? 'Link copied' : 'Copy link'}
+                  </button>
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {(['Red', 'Blue'] as const).map(side => {
+                    const member = roomInfo?.members.find(m => m.player === side);
+                    return (
+                      <li key={side} className="flex items-center gap-2">
+                        <span className={`w-10 font-semibold ${side === 'Red' ? 'text-red-600' : 'text-blue-600'}`}>{side}</span>
+                        <span className={`flex-1 truncate ${!member || !member.connected ? 'text-gray-400' : ''}`}>
+                          {member ? member.name : 'Open seat'}
+                          {side === 'Red' && ' (host)'}
+                          {side === joinedRoom.player && ' — you'}
+                        </span>
+                        {member && (
+                          <span className={`text-xs ${member.ready ? 'text-green-700' : 'text-gray-400'}`}>
+                            {member.ready ? 'Ready' : 'Not ready'}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    className={`px-3 py-2 text-sm rounded disabled:opacity-50 ${myMember?.ready ? 'bg-green-600 text-white' : 'bg-gray-200'}`}
+                    onClick={() => roomRef.current?.send({ type: 'ready', ready: !myMember?.ready })}
+                    disabled={!inLobbyPhase}
+                  >
+                    {myMember?.ready ? 'Ready ✓' : 'Ready?'}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-3 py-2 text-sm rounded bg-gray-200"
+                    onClick={handleLeaveRoom}
+                  >
+                    Leave Room
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {isHost
+                    ? 'Everyone in the room sees your settings; changing one clears both ready flags. Start when you are both ready.'
+                    : 'The host picks the settings. Ready up when you are happy with them.'}
+                </p>
+                {roomError && <p className="text-sm text-red-600">{roomError}</p>}
+              </div>
+            ) : opponent === 'online' ? (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Play another person over the network. The host makes a room with their settings and plays <span className="font-semibold text-red-600">Red</span>; whoever joins with the code or link plays <span className="font-semibold text-blue-600">Blue</span>.
+                </p>
+                <div>
+                  <label htmlFor="playerName" className="block text-gray-700 mb-1">Your Name</label>
+                  <input
+                    id="playerName"
+                    type="text"
+                    className="w-full border rounded px-3 py-2 text-sm"
+                    placeholder="Shown in the room"
+                    maxLength={20}
+                    value={playerName}
+                    onChange={(e) => handleNameChange(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="serverUrl" className="block text-gray-700 mb-1">Match Server</label>
+                  <input
+                    id="serverUrl"
+                    type="text"
+                    className="w-full border rounded px-3 py-2 text-sm font-mono"
+                    value={serverUrl}
+                    onChange={(e) => setServerUrl(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="roomCode" className="block text-gray-700 mb-1">Room Code</label>
+                  <input
+                    id="roomCode"
+                    type="text"
+                    className="w-full border rounded px-3 py-2 text-sm font-mono uppercase"
+                    placeholder="Random when hosting"
+                    value={roomCode}
+                    onChange={(e) => setRoomCode(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="bg-blue-600 text-white px-4 py-2 rounded w-full disabled:opacity-50"
+                  onClick={() => enterRoom(roomCode.trim())}
+                  disabled={!roomCode.trim() || !serverUrl.trim()}
+                >
+                  Join Room
+                </button>
+                <p className="text-xs text-gray-500">To host, pick the settings and press Host Room.</p>
+                {roomError && <p className="text-sm text-red-600">{roomError}</p>}
+              </div>
+            ) : hotSeat ? (
+              <p className="text-sm text-gray-600 mb-3">
+                Two players on this device: one plays <span className="font-semibold text-red-600">Red</span>, the other <span className="font-semibold text-blue-600">Blue</span>.
+                {gameSettings.mode === 'turns'
+                  ? ' The board is hidden while you pass the device between turns.'
+                  : ' In real-time, click any unit or factory to command its side.'}
+              </p>
+            ) : (
+            <>
             <p className="text-sm text-gray-600 mb-3">
               You play as <span className="font-semibold text-red-600">Red</span> against an AI opponent (<span className="font-semibold text-blue-600">Blue</span>).
             </p>
 
-            <label className="block text-gray-700 mb-2">AI Difficulty</label>
+            <p className="text-gray-700 mb-2">AI Difficulty</p>
             <div className="grid grid-cols-3 gap-2">
               {(['easy', 'medium', 'hard'] as const).map(level => (
                 <button
+                  type="button"
                   key={level}
                   className={`px-3 py-2 text-sm rounded capitalize ${aiDifficulty === level ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
                   onClick={() => setAiDifficulty(level)}
@@ -88,6 +430,24 @@ const Lobby = ({ }) => {
                 </button>
               ))}
             </div>
+
+            <p className="text-gray-700 mt-4 mb-2">AI Personality</p>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(PERSONALITIES).map(p => (
+                <button
+                  type="button"
+                  key={p.id}
+                  className={`px-3 py-2 text-sm rounded ${aiPersonality === p.id ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                  onClick={() => setAiPersonality(p.id)}
+                  title={p.description}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{PERSONALITIES[aiPersonality].description}</p>
+            </>
+            )}
           </div>
 
           {/* Middle column - Game Settings */}
@@ -95,11 +455,13 @@ const Lobby = ({ }) => {
             <h2 className="text-xl font-semibold mb-4">Game Settings</h2>
 
             <div className="space-y-4">
+              <fieldset disabled={isGuest} className="space-y-4">
               <div>
-                <label className="block text-gray-700 mb-1">Map Size</label>
+                <p className="text-gray-700 mb-1">Map Size</p>
                 <div className="grid grid-cols-3 gap-2">
                   {([10, 20, 30] as const).map(size => (
                     <button
+                      type="button"
                       key={size}
                       className={`px-3 py-2 text-sm rounded ${gameSettings.mapSize === size ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
                       onClick={() => handleSettingChange('mapSize', size)}
@@ -111,8 +473,48 @@ const Lobby = ({ }) => {
               </div>
 
               <div>
-                <label className="block text-gray-700 mb-1">Starting Funds</label>
+                <p className="text-gray-700 mb-1">Game Mode</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {([['realtime', 'Real-time'], ['turns', 'Turn-based']] as const).map(([mode, label]) => (
+                    <button
+                      type="button"
+                      key={mode}
+                      className={`px-3 py-2 text-sm rounded ${gameSettings.mode === mode ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                      onClick={() => handleSettingChange('mode', mode)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {gameSettings.mode === 'turns'
+                    ? 'Classic turns: every unit acts once, then End Turn. Income and repairs at turn start.'
+                    : 'Both sides act at once, paced by AP and unit cooldowns.'}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-gray-700 mb-1">Ruleset</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.values(RULESETS).map(r => (
+                    <button
+                      type="button"
+                      key={r.id}
+                      className={`px-3 py-2 text-sm rounded ${gameSettings.ruleset === r.id ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                      onClick={() => handleSettingChange('ruleset', r.id)}
+                      title={r.description}
+                    >
+                      {r.name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{RULESETS[gameSettings.ruleset].description}</p>
+              </div>
+
+              <div>
+                <label htmlFor="startingFunds" className="block text-gray-700 mb-1">Starting Funds</label>
                 <select
+                  id="startingFunds"
                   className="w-full border rounded px-3 py-2"
                   value={gameSettings.startingFunds}
                   onChange={(e) => handleSettingChange('startingFunds', parseInt(e.target.value))}
@@ -127,16 +529,20 @@ const Lobby = ({ }) => {
                 <input
                   type="checkbox"
                   id="fogOfWar"
-                  checked={gameSettings.fogOfWar}
+                  checked={gameSettings.fogOfWar && fogAvailable}
+                  disabled={!fogAvailable}
                   onChange={(e) => handleSettingChange('fogOfWar', e.target.checked)}
                   className="mr-2"
                 />
-                <label htmlFor="fogOfWar">Fog of War</label>
+                <label htmlFor="fogOfWar" className={fogAvailable ? '' : 'text-gray-400'}>
+                  Fog of War{fogAvailable ? '' : ' (turn-based only in hot-seat)'}
+                </label>
               </div>
 
               <div>
-                <label className="block text-gray-700 mb-1">Turn Time Limit</label>
+                <label htmlFor="turnTimeLimit" className="block text-gray-700 mb-1">Turn Time Limit</label>
                 <select
+                  id="turnTimeLimit"
                   className="w-full border rounded px-3 py-2"
                   value={gameSettings.turnTimeLimit}
                   onChange={(e) => handleSettingChange('turnTimeLimit', parseInt(e.target.value))}
@@ -146,14 +552,143 @@ const Lobby = ({ }) => {
                   <option value={120}>2 minutes</option>
                   <option value={300}>5 minutes</option>
                 </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {gameSettings.mode === 'turns'
+                    ? 'Per turn — the turn ends automatically when time runs out.'
+                    : 'Match clock — when it runs out, more cities (then unit value) wins.'}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-gray-700 mb-1">Victory Conditions</p>
+                <div className="space-y-1 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={gameSettings.victory.annihilation}
+                      onChange={(e) => handleVictoryChange({ annihilation: e.target.checked })}
+                    />
+                    Annihilation — destroy every enemy unit
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={gameSettings.victory.hqCapture}
+                      onChange={(e) => handleVictoryChange({ hqCapture: e.target.checked })}
+                    />
+                    HQ capture — take the enemy Headquarters
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Hold
+                    <select
+                      className="border rounded px-2 py-0.5"
+                      value={gameSettings.victory.cityShare ?? ''}
+                      onChange={(e) => handleVictoryChange({ cityShare: e.target.value ? Number(e.target.value) : null })}
+                    >
+                      <option value="">—</option>
+                      {CITY_SHARE_OPTIONS.map(share => (
+                        <option key={share} value={share}>{Math.round(share * 100)}%</option>
+                      ))}
+                    </select>
+                    of all cities
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={gameSettings.victory.scoreAtTimeLimit}
+                      onChange={(e) => handleVictoryChange({ scoreAtTimeLimit: e.target.checked })}
+                    />
+                    Highest score at the time limit
+                  </label>
+                </div>
+                <p className={`text-xs mt-1 ${canEnd ? 'text-gray-500' : 'text-red-600'}`}>
+                  {canEnd
+                    ? 'Any enabled condition ends the match. Score = unit value + $1000 per city, judged when a real-time match clock runs out.'
+                    : 'Pick at least one condition, or set a real-time match clock.'}
+                </p>
               </div>
 
-              <button
-                className="bg-green-600 text-white px-4 py-2 rounded w-full mt-6"
-                onClick={handleStartGame}
-              >
-                Start Game
-              </button>
+              <div>
+                <label htmlFor="mapSeed" className="block text-gray-700 mb-1">Map Seed</label>
+                <input
+                  id="mapSeed"
+                  type="text"
+                  className="w-full border rounded px-3 py-2"
+                  placeholder="Random"
+                  value={gameSettings.seed}
+                  onChange={(e) => handleSettingChange('seed', e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">Reuse a seed to replay the same map and AI choices.</p>
+              </div>
+              </fieldset>
+
+              {opponent !== 'online' ? (
+                <button
+                  type="button"
+                  className="bg-green-600 text-white px-4 py-2 rounded w-full mt-6 disabled:opacity-50"
+                  onClick={handleStartGame}
+                  disabled={!canEnd}
+                >
+                  Start Game
+                </button>
+              ) : !joinedRoom ? (
+                <button
+                  type="button"
+                  className="bg-green-600 text-white px-4 py-2 rounded w-full mt-6 disabled:opacity-50"
+                  onClick={() => enterRoom(roomCode.trim() || randomRoomCode(), toLobbySettings(gameSettings, battleLocation))}
+                  disabled={!canEnd || !serverUrl.trim()}
+                >
+                  Host Room
+                </button>
+              ) : isHost ? (
+                <button
+                  type="button"
+                  className="bg-green-600 text-white px-4 py-2 rounded w-full mt-6 disabled:opacity-50"
+                  onClick={handleStartMatch}
+                  disabled={!canEnd || !bothReady || !inLobbyPhase || starting}
+                >
+                  {starting ? 'Starting…' : bothReady ? 'Start Match' : 'Start Match (waiting for both to be ready)'}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="bg-gray-400 text-white px-4 py-2 rounded w-full mt-6"
+                  disabled
+                >
+                  Waiting for the host to start
+                </button>
+              )}
+
+              {autosave && (
+                <button
+                  type="button"
+                  className="bg-blue-600 text-white px-4 py-2 rounded w-full"
+                  onClick={() => handleResume(AUTOSAVE_ID)}
+                >
+                  Continue <span className="text-xs opacity-80">({new Date(autosave.savedAt).toLocaleString()})</span>
+                </button>
+              )}
+
+              {namedSaves.length > 0 && (
+                <div>
+                  <p className="text-gray-700 mb-1">Saved Games</p>
+                  <ul className="space-y-1">
+                    {namedSaves.map(save => (
+                      <li key={save.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 truncate" title={new Date(save.savedAt).toLocaleString()}>
+                          {save.name} <span className="text-xs text-gray-500">{save.settings.mapSize}×{save.settings.mapSize}</span>
+                        </span>
+                        <button type="button" className="px-2 py-1 text-xs rounded bg-blue-500 text-white" onClick={() => handleResume(save.id)}>
+                          Load
+                        </button>
+                        <button type="button" className="px-2 py-1 text-xs rounded bg-gray-200" onClick={() => handleDeleteSave(save.id)}>
+                          Delete
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
 
@@ -162,7 +697,7 @@ const Lobby = ({ }) => {
             {/* Battle Location */}
             <div className="bg-white rounded-lg shadow p-4">
               <h2 className="text-xl font-semibold mb-4">Battle Location</h2>
-              <LocationPicker value={battleLocation} onChange={setBattleLocation} />
+              <LocationPicker value={battleLocation} onChange={setBattleLocation} readOnly={isGuest} />
             </div>
 
             {/* Chat */}
@@ -170,10 +705,16 @@ const Lobby = ({ }) => {
               <h2 className="text-xl font-semibold mb-2">Chat</h2>
 
               <div className="flex-1 overflow-y-auto mb-3 space-y-2">
-                {chatMessages.map((msg, index) => (
-                  <div key={index} className="text-sm">
-                    <span className="font-semibold">{msg.sender}: </span>
-                    <span>{msg.text}</span>
+                {chatMessages.map(msg => (
+                  <div key={msg.id} className="text-sm">
+                    {msg.from === null ? (
+                      <span className="italic text-gray-500">{msg.text}</span>
+                    ) : (
+                      <>
+                        <span className="font-semibold">{msg.from}: </span>
+                        <span>{msg.text}</span>
+                      </>
+                    )}
                   </div>
                 ))}
               </div>
@@ -182,13 +723,16 @@ const Lobby = ({ }) => {
                 <input
                   type="text"
                   className="flex-1 border rounded-l px-3 py-2"
-                  placeholder="Type a message..."
+                  placeholder={joinedRoom ? 'Type a message...' : 'Join or host a room to chat'}
+                  maxLength={200}
+                  disabled={!joinedRoom}
                   value={chatInput}
                   onChange={(e) => setChatInput(e.target.value)}
                 />
                 <button
                   type="submit"
-                  className="bg-blue-500 text-white px-4 py-2 rounded-r"
+                  className="bg-blue-500 text-white px-4 py-2 rounded-r disabled:opacity-50"
+                  disabled={!joinedRoom}
                 >
                   Send
                 </button>
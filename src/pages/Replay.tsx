@@ -0,0 +1,352 @@
+import { IconDownload, IconPlayerPause, IconPlayerPlay, IconPlayerSkipBack, IconUpload } from "@tabler/icons-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import GameBoard3D from "../components/GameBoard3D";
+import MapLibreBackdrop, { type MapLibreBackdropHandle } from "../components/MapLibreBackdrop";
+import MinimapOverlay from "../components/MinimapOverlay";
+import { applyRuleset, setGridSize } from "../lib/constants";
+import type { GameState } from "../lib/engine";
+import {
+  type MatchRecording,
+  buildReplayStates,
+  describeEvent,
+  loadLastRecording,
+  parseRecording,
+} from "../lib/replay";
+import { getRuleset } from "../lib/rulesets";
+
+const BASE_MAP_ZOOM = 18; // matches Game — zoom for a 10×10 grid
+const TICK_MS = 100; // playback clock resolution
+const SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+const formatTime = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+/** Number of events that have happened by `t` (events are sorted by time). */
+const countEventsAt = (recording: MatchRecording, t: number) => {
+  let lo = 0;
+  let hi = recording.events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (recording.events[mid].t <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const Replay = () => {
+  const [recording, setRecording] = useState<MatchRecording | null>(null);
+  const [states, setStates] = useState<GameState[]>([]);
+  const [playTime, setPlayTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [attackEvent, setAttackEvent] = useState<{
+    attackerPos: [number, number];
+    defenderPos: [number, number];
+    timestamp: number;
+    hasCounter: boolean;
+  } | null>(null);
+
+  const mapBackdropRef = useRef<MapLibreBackdropHandle | null>(null);
+  const prevIndexRef = useRef(0);
+  // Set when the user jumps (scrubber, event list, restart) so jumps don't fire attack animations
+  const jumpedRef = useRef(false);
+
+  const jumpTo = (t: number) => {
+    jumpedRef.current = true;
+    setPlayTime(t);
+  };
+
+  const loadRecording = useCallback((rec: MatchRecording) => {
+    // The engine and board read GRID_SIZE and the ruleset — set them before rebuilding any state
+    setGridSize(rec.mapSize);
+    applyRuleset(getRuleset(rec.initialState.ruleset));
+    setStates(buildReplayStates(rec));
+    setRecording(rec);
+    setPlayTime(0);
+    setIsPlaying(false);
+    prevIndexRef.current = 0;
+    setLoadError(null);
+  }, []);
+
+  useEffect(() => {
+    const last = loadLastRecording();
+    if (last) loadRecording(last);
+  }, [loadRecording]);
+
+  const duration = recording?.events[recording.events.length - 1]?.t ?? 0;
+  const index = recording ? countEventsAt(recording, playTime) : 0;
+  const state = states[index];
+
+  // Event list keys: the event's time plus its place among events at that same ms
+  const eventKeys = useMemo(() => {
+    const seen = new Map<number, number>();
+    return (recording?.events ?? []).map((event) => {
+      const n = seen.get(event.t) ?? 0;
+      seen.set(event.t, n + 1);
+      return `${event.t}-${n}`;
+    });
+  }, [recording]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => {
+      setPlayTime((t) => {
+        const next = t + TICK_MS * speed;
+        if (next >= duration) {
+          setIsPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  // Fire the board's projectile animation for attacks reached during normal playback
+  useEffect(() => {
+    const prev = prevIndexRef.current;
+    const jumped = jumpedRef.current;
+    prevIndexRef.current = index;
+    jumpedRef.current = false;
+    if (!recording || jumped || index <= prev) return;
+
+    const lastAttack = recording.events
+      .slice(prev, index)
+      .reverse()
+      .find((e) => e.action.type === "attack");
+    if (!lastAttack || lastAttack.action.type !== "attack" || lastAttack.outcome.type !== "attack") return;
+    const hasCounter = lastAttack.outcome.counterDamage !== null;
+    setAttackEvent({
+      attackerPos: lastAttack.action.from,
+      defenderPos: lastAttack.action.target,
+      timestamp: performance.now(),
+      hasCounter,
+    });
+    setTimeout(() => setAttackEvent(null), hasCounter ? 1400 : 800);
+  }, [index, recording]);
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rec = parseRecording(String(reader.result));
+      if (rec) loadRecording(rec);
+      else setLoadError("Not a valid replay file");
+    };
+    reader.readAsText(file);
+  };
+
+  const handleDownload = () => {
+    if (!recording) return;
+    const blob = new Blob([JSON.stringify(recording)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `battle-replay-${recording.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && playTime >= duration) jumpTo(0);
+    setIsPlaying((p) => !p);
+  };
+
+  return (
+    <div className="flex flex-col bg-gray-100 h-screen overflow-hidden">
+      {/* Header */}
+      <header className="flex items-center justify-between px-4 py-2 bg-white shadow z-10 shrink-0">
+        <h1 className="text-xl font-bold">Replay</h1>
+        <Link to="/" className="text-sm text-blue-600 hover:underline">
+          Back to Lobby
+        </Link>
+      </header>
+
+      <div className="flex flex-col lg:flex-row flex-1 gap-2 p-2 min-h-0 overflow-y-auto lg:overflow-hidden">
+        {/* Left sidebar — playback controls */}
+        <aside className="flex flex-col gap-2 lg:w-56 xl:w-64 shrink-0 lg:overflow-y-auto">
+          <div className="bg-white p-3 rounded shadow space-y-2">
+            {recording ? (
+              <>
+                <p className="text-xs text-gray-500">
+                  Seed: <span className="font-mono">{recording.seed}</span>
+                </p>
+                <p className="text-sm font-mono">
+                  {formatTime(playTime)} / {formatTime(duration)}
+                </p>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={0}
+                  max={duration}
+                  step={TICK_MS}
+                  value={playTime}
+                  onChange={(e) => jumpTo(Number(e.target.value))}
+                />
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    className="bg-gray-200 hover:bg-gray-300 px-2 py-1 rounded"
+                    onClick={() => {
+                      jumpTo(0);
+                      setIsPlaying(false);
+                    }}
+                    title="Restart"
+                  >
+                    <IconPlayerSkipBack size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    className="flex-1 bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm flex items-center justify-center gap-1"
+                    onClick={togglePlay}
+                  >
+                    {isPlaying ? (
+                      <>
+                        <IconPlayerPause size={14} /> Pause
+                      </>
+                    ) : (
+                      <>
+                        <IconPlayerPlay size={14} /> Play
+                      </>
+                    )}
+                  </button>
+                </div>
+                <div className="flex gap-1">
+                  {SPEEDS.map((s) => (
+                    <button
+                      type="button"
+                      key={s}
+                      className={`flex-1 px-1 py-0.5 text-xs rounded ${speed === s ? "bg-purple-600 text-white" : "bg-gray-200"}`}
+                      onClick={() => setSpeed(s)}
+                    >
+                      {s}×
+                    </button>
+                  ))}
+                </div>
+                {state && (
+                  <div className="text-xs space-y-0.5 pt-1">
+                    {state.mode === "turns" ? (
+                      <>
+                        <p className="font-bold">
+                          Turn {state.turn} — {state.activePlayer}'s turn
+                        </p>
+                        <p className="text-red-600 font-bold">Red: ${state.resources.Red}</p>
+                        <p className="text-blue-600 font-bold">Blue: ${state.resources.Blue}</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-red-600 font-bold">
+                          Red: ${state.resources.Red} · {state.actionPoints.Red} AP
+                        </p>
+                        <p className="text-blue-600 font-bold">
+                          Blue: ${state.resources.Blue} · {state.actionPoints.Blue} AP
+                        </p>
+                      </>
+                    )}
+                    {state.winner && (
+                      <p className="font-bold">
+                        {state.winner} wins
+                        {state.winReason === "timeout"
+                          ? " on time"
+                          : state.winReason === "hq"
+                            ? " — HQ captured"
+                            : state.winReason === "cities"
+                              ? " on cities"
+                              : "!"}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">No replay loaded. Finish a match or open a replay file.</p>
+            )}
+          </div>
+
+          <div className="bg-white p-3 rounded shadow space-y-1">
+            <label className="w-full bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded text-sm flex items-center justify-center gap-1 cursor-pointer">
+              <IconUpload size={14} /> Open replay file
+              <input
+                type="file"
+                accept="application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) handleFile(f);
+                }}
+              />
+            </label>
+            <button
+              type="button"
+              className="w-full bg-gray-200 hover:bg-gray-300 px-3 py-1.5 rounded text-sm flex items-center justify-center gap-1 disabled:opacity-50"
+              onClick={handleDownload}
+              disabled={!recording}
+            >
+              <IconDownload size={14} /> Download replay
+            </button>
+            {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+          </div>
+        </aside>
+
+        {/* Center — 3D board */}
+        <div className="relative flex-1 min-w-0 min-h-[420px] lg:min-h-0 lg:h-full rounded-lg overflow-hidden shadow-lg">
+          {recording && state && (
+            <>
+              <MapLibreBackdrop
+                ref={mapBackdropRef}
+                center={recording.battleLocation}
+                zoom={BASE_MAP_ZOOM - Math.log2(recording.mapSize / 10)}
+              />
+              <GameBoard3D
+                grid={state.grid}
+                selectedUnit={null}
+                movementRange={[]}
+                attackRange={[]}
+                unitCooldowns={state.cooldowns}
+                actedUnits={state.mode === "turns" ? state.acted : undefined}
+                now={recording.startedAt + playTime}
+                onTileClick={() => {}}
+                attackEvent={attackEvent}
+                mapBackdropRef={mapBackdropRef}
+              />
+              <MinimapOverlay grid={state.grid} />
+            </>
+          )}
+        </div>
+
+        {/* Right sidebar — event log */}
+        <aside className="flex flex-col gap-2 lg:w-64 xl:w-72 shrink-0 lg:overflow-y-auto">
+          <div className="bg-white p-3 rounded shadow">
+            <h3 className="font-semibold text-sm mb-1">Events</h3>
+            <ol className="text-xs space-y-0.5">
+              {recording?.events.map((event, i) => (
+                <li key={eventKeys[i]}>
+                  <button
+                    type="button"
+                    className={`w-full text-left rounded px-1 hover:bg-gray-100 ${i === index - 1 ? "bg-yellow-100 font-semibold" : i >= index ? "text-gray-400" : ""}`}
+                    onClick={() => jumpTo(event.t)}
+                  >
+                    <span className="font-mono text-gray-500">{formatTime(event.t)}</span>{" "}
+                    <span
+                      className={
+                        event.actor === "ai" ? "text-blue-700" : event.actor === "player" ? "text-red-700" : ""
+                      }
+                    >
+                      {describeEvent(event)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default Replay;
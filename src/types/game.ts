@@ -1,25 +1,26 @@
 export type UnitType = 'Infantry' | 'Tank' | 'Artillery' | 'Chopper';
 export type TerrainType = 'Plain' | 'Mountain' | 'Forest' | 'City' | 'Road' | 'Water';
 export type Player = 'Red' | 'Blue';
+/** How a unit gets around; each class has its own terrain cost table (MOVEMENT_COSTS). */
+export type MovementClass = 'foot' | 'treads' | 'tires' | 'air' | 'naval';
 
 export interface Terrain {
   type: TerrainType;
   defenseBonus: number;
-  movementCost: number;
   isCity?: boolean;
 }
 
 export interface City extends Terrain {
   owner: Player | null;
   captureProgress: number;
+  /** Set on a side's Headquarters: losing it can lose the match (see victory.ts). */
+  hq?: Player;
 }
 
 export interface Unit {
   id: string;
   type: UnitType;
   health: number;
-  attack: number;
-  defense: number;
   moveRange: number;
   attackRange: number;
   position: [number, number];